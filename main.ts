@@ -1,5 +1,37 @@
-import { App, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, TextAreaComponent, Notice } from 'obsidian';
+import { App, Plugin, PluginSettingTab, Setting, WorkspaceLeaf, TextAreaComponent, TextComponent, Notice, TFile, moment } from 'obsidian';
 import { TerminalView, TERMINAL_VIEW_TYPE } from './src/TerminalView';
+import { AIProvider, ProviderRegistry, ProviderSettingField } from './src/providers/ProviderRegistry';
+import { GeminiProvider } from './src/providers/GeminiProvider';
+import { OpenAIProvider } from './src/providers/OpenAIProvider';
+import { ClaudeProvider } from './src/providers/ClaudeProvider';
+import { LocalProvider } from './src/providers/LocalProvider';
+import { VaultIndex } from './src/VaultIndex';
+import { MediaKind } from './src/AIService';
+import { EditorActions, InsertMode, INSERT_MODE_LABELS } from './src/EditorActions';
+import { TemplateVariables, TEMPLATE_VARIABLES_HELP } from './src/TemplateVariables';
+import { SkillStore } from './src/SkillStore';
+import { SkillSelector } from './src/SkillSelector';
+import { AgentStep } from './src/Agent';
+import { UsageTracker, MessageUsage, ModelPrice, UsageTotals, BudgetMode } from './src/UsageTracker';
+import { UsageStatsModal } from './src/UsageStatsModal';
+import { KeyStore, KeyStorage, KEY_STORAGE_LABELS } from './src/KeyStore';
+import { NoteCreator, NoteSource, NoteFolderRule, DEFAULT_NOTE_TEMPLATE, NOTE_TEMPLATE_HELP } from './src/NoteCreator';
+
+// Id of a provider in the ProviderRegistry; built-ins are 'gemini', 'openai', 'claude' and 'local'
+export type ProviderId = string;
+
+export interface ModelInfo {
+    id: string;
+    name: string;
+    contextWindow: number;
+    // Attachment kinds the model accepts besides text; undefined when unknown (e.g. local models)
+    modalities?: MediaKind[];
+}
+
+export interface ModelCacheEntry {
+    fetchedAt: number;
+    models: ModelInfo[];
+}
 
 export interface Skill {
     id: string;
@@ -7,24 +39,92 @@ export interface Skill {
     description: string;
     instructions: string;
     enabled: boolean;
+    keywords?: string[]; // Words that trigger the skill when they appear in a message
+    folder?: string; // Folder under <configDir>/skills holding SKILL.md
+    resources?: string[]; // Other files bundled in the folder, relative to it
 }
 
 export interface CustomCommand {
     id: string;
-    provider: 'gemini' | 'openai' | 'claude';
+    provider: ProviderId;
     modelId: string;
     name: string;
     command: string;
     promptTemplate: string;
+    output?: CommandOutput; // Where the command palette / hotkey version writes its answer; defaults to 'terminal'
+    skillIds?: string[]; // Skills applied to every run of this command, relevant or not
+}
+
+export type CommandOutput = 'terminal' | 'note' | 'cursor';
+
+export interface ChatMessage {
+    role: 'user' | 'ai' | 'system';
+    content: string;
+    skills?: string[]; // Names of the skills applied to an AI response
+    model?: string; // Model that wrote an AI response
+    command?: string; // Custom command that produced an AI response
+    attachments?: string[]; // Paths of the notes attached when an AI response was generated
+    steps?: AgentStep[]; // Tool calls made in agent mode, in order
+    usage?: MessageUsage; // Tokens and estimated cost of an AI response
+    noteHashes?: Record<string, string>; // Edit mode: hash of each attached note as sent, by path
+}
+
+// Tag, frontmatter and search groups are "live": re-evaluated whenever a message is sent
+// Section, block and selection attachments cover only part of a note
+export type AttachmentType = 'file' | 'folder' | 'tag' | 'frontmatter' | 'search' | 'links' | 'section' | 'block' | 'selection';
+
+export interface SavedAttachment {
+    type: AttachmentType;
+    name: string;
+    path: string;
+    paths: string[]; // Paths of the attached notes, re-resolved on load
+    query?: string; // Tag, frontmatter condition or search text of a live group; link depth for 'links'; heading or block id
+    occurrence?: number; // Which of several identical headings a section attachment refers to
+    excerpt?: string; // Snapshot of an editor selection
+}
+
+export interface ChatSession {
+    id: string;
+    name: string;
+    messages: ChatMessage[];
+    provider: ProviderId;
+    modelId: string;
+    attachments: SavedAttachment[];
+    createdAt: number;
+    updatedAt: number;
 }
 
 export interface PluginSettings {
+    // API keys in 'settings' storage; always read them through plugin.keys
     googleApiKey: string;
     openaiApiKey: string;
     claudeApiKey: string;
+    localBaseUrl: string;
+    localApiKey: string;
+    localHeaders: string; // One "Header-Name: value" per line
+    localModels: string; // Comma or newline separated model ids
+    localContextWindow: number;
     defaultFolder: string;
+    noteTemplatePath: string; // Vault note used as template; overrides noteTemplate when set
+    noteTemplate: string;
+    noteFilenamePattern: string;
+    noteFolderRules: NoteFolderRule[];
     customCommands: CustomCommand[];
     skills: Skill[];
+    sessions: ChatSession[];
+    activeSessionId: string;
+    modelCache: Record<string, ModelCacheEntry>; // Live model lists keyed by provider id
+    retrievalTopK: number;
+    agentMaxSteps: number; // Tool calls allowed per request in agent mode
+    requestTimeout: number; // Seconds; 0 disables the timeout
+    maxRetries: number; // Retries after rate-limit or overload responses
+    modelPrices: Record<string, ModelPrice>; // Keyed by model id; dated snapshots share their family's price
+    usageByDay: Record<string, Record<string, UsageTotals>>; // 'YYYY-MM-DD' -> 'provider/model' -> totals
+    budgets: Record<string, number>; // Monthly cap in USD per provider id; 0 for none
+    budgetMode: BudgetMode;
+    keyStorage: Record<string, KeyStorage>; // Per provider id; 'settings' when missing
+    keyEnvVars: Record<string, string>; // Environment variable per provider id in 'env' storage
+    apiKeys: Record<string, string>; // Synced keys of providers without a field above
 }
 
 const PROMPT_TEMPLATES = {
@@ -32,17 +132,17 @@ const PROMPT_TEMPLATES = {
     obsidianNote: `You are an Obsidian note creation expert. Create notes with YAML frontmatter properties.
 
 CRITICAL RULES:
-1. Title MUST end with today's date in YYYYMMDD format (e.g., "My Topic 20260125")
+1. Title MUST end with today's date: {{date:YYYYMMDD}}
 2. YAML arrays MUST use bracket format: ["item1", "item2"]
 3. String values with special characters MUST be quoted
-4. created field format: "YYYY-MM-DD HH:mm"
+4. created field: "{{date:YYYY-MM-DD}} {{time}}"
 
 Output this exact format:
 ---
-title: "[Topic Title] YYYYMMDD"
+title: "[Topic Title] {{date:YYYYMMDD}}"
 tags: ["tag1", "tag2", "tag3"]
 aliases: ["별칭1", "Alias2"]
-created: "YYYY-MM-DD HH:mm"
+created: "{{date:YYYY-MM-DD}} {{time}}"
 type: ["Note"]
 status: "작성완료"
 priority: "Medium"
@@ -52,7 +152,7 @@ keywords: ["키워드1", "keyword2"]
 summary: "Brief one-line summary of the content"
 ---
 
-# [Topic Title] YYYYMMDD
+# [Topic Title] {{date:YYYYMMDD}}
 
 ## Content
 Write well-structured content here.`,
@@ -60,16 +160,16 @@ Write well-structured content here.`,
     summarize: `You are an expert content summarizer for Obsidian notes.
 
 CRITICAL RULES:
-1. Title MUST end with today's date in YYYYMMDD format
+1. Title MUST end with today's date: {{date:YYYYMMDD}}
 2. YAML arrays MUST use bracket format: ["item1", "item2"]
 3. All string values MUST be quoted
 
 Output this exact format:
 ---
-title: "Summary [Topic] YYYYMMDD"
+title: "Summary [Topic] {{date:YYYYMMDD}}"
 tags: ["summary", "요약"]
 aliases: []
-created: "YYYY-MM-DD HH:mm"
+created: "{{date:YYYY-MM-DD}} {{time}}"
 type: ["Summary"]
 status: "분석완료"
 priority: "Medium"
@@ -79,7 +179,7 @@ keywords: ["keyword1", "keyword2"]
 summary: "One-line summary of key takeaways"
 ---
 
-# Summary [Topic] YYYYMMDD
+# Summary [Topic] {{date:YYYYMMDD}}
 
 ## 📌 핵심 요약
 Brief summary paragraph.
@@ -96,16 +196,16 @@ Brief summary paragraph.
     analyze: `You are an expert analyst. Analyze the given content and create an Obsidian note.
 
 CRITICAL RULES:
-1. Title MUST end with today's date in YYYYMMDD format
+1. Title MUST end with today's date: {{date:YYYYMMDD}}
 2. YAML arrays MUST use bracket format: ["item1", "item2"]
 3. All string values MUST be quoted
 
 Output this exact format:
 ---
-title: "Analysis [Topic] YYYYMMDD"
+title: "Analysis [Topic] {{date:YYYYMMDD}}"
 tags: ["analysis", "분석"]
 aliases: []
-created: "YYYY-MM-DD HH:mm"
+created: "{{date:YYYY-MM-DD}} {{time}}"
 type: ["Analysis"]
 status: "분석완료"
 priority: "Medium"
@@ -115,7 +215,7 @@ keywords: ["keyword1", "keyword2"]
 summary: "One-line summary of the analysis"
 ---
 
-# Analysis [Topic] YYYYMMDD
+# Analysis [Topic] {{date:YYYYMMDD}}
 
 ## 📊 개요
 Brief overview of what was analyzed.
@@ -133,37 +233,39 @@ What this means and why it matters.
 - [ ] Action 2`
 };
 
-export const PROVIDER_MODELS = {
+export const PROVIDER_MODELS: Record<string, ModelInfo[]> = {
     gemini: [
-        { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro' },
-        { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash' },
-        { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite' },
-        { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash' },
-        { id: 'gemini-2.0-flash-lite', name: 'Gemini 2.0 Flash Lite' },
+        { id: 'gemini-2.5-pro', name: 'Gemini 2.5 Pro', contextWindow: 1048576, modalities: ['image', 'pdf'] },
+        { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', contextWindow: 1048576, modalities: ['image', 'pdf'] },
+        { id: 'gemini-2.5-flash-lite', name: 'Gemini 2.5 Flash Lite', contextWindow: 1048576, modalities: ['image', 'pdf'] },
+        { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', contextWindow: 1048576, modalities: ['image', 'pdf'] },
+        { id: 'gemini-2.0-flash-lite', name: 'Gemini 2.0 Flash Lite', contextWindow: 1048576, modalities: ['image', 'pdf'] },
     ],
     openai: [
-        { id: 'gpt-4.1', name: 'GPT-4.1' },
-        { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini' },
-        { id: 'gpt-4.1-nano', name: 'GPT-4.1 Nano' },
-        { id: 'gpt-4o', name: 'GPT-4o' },
-        { id: 'gpt-4o-mini', name: 'GPT-4o Mini' },
-        { id: 'o3', name: 'o3' },
-        { id: 'o3-mini', name: 'o3 Mini' },
-        { id: 'o4-mini', name: 'o4 Mini' },
-        { id: 'gpt-4-turbo', name: 'GPT-4 Turbo' },
-        { id: 'gpt-4', name: 'GPT-4' },
-        { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo' },
+        { id: 'gpt-4.1', name: 'GPT-4.1', contextWindow: 1047576, modalities: ['image', 'pdf'] },
+        { id: 'gpt-4.1-mini', name: 'GPT-4.1 Mini', contextWindow: 1047576, modalities: ['image', 'pdf'] },
+        { id: 'gpt-4.1-nano', name: 'GPT-4.1 Nano', contextWindow: 1047576, modalities: ['image', 'pdf'] },
+        { id: 'gpt-4o', name: 'GPT-4o', contextWindow: 128000, modalities: ['image', 'pdf'] },
+        { id: 'gpt-4o-mini', name: 'GPT-4o Mini', contextWindow: 128000, modalities: ['image', 'pdf'] },
+        { id: 'o3', name: 'o3', contextWindow: 200000, modalities: ['image', 'pdf'] },
+        { id: 'o3-mini', name: 'o3 Mini', contextWindow: 200000, modalities: [] },
+        { id: 'o4-mini', name: 'o4 Mini', contextWindow: 200000, modalities: ['image', 'pdf'] },
+        { id: 'gpt-4-turbo', name: 'GPT-4 Turbo', contextWindow: 128000, modalities: ['image'] },
+        { id: 'gpt-4', name: 'GPT-4', contextWindow: 8192, modalities: [] },
+        { id: 'gpt-3.5-turbo', name: 'GPT-3.5 Turbo', contextWindow: 16385, modalities: [] },
     ],
     claude: [
-        { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5' },
-        { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5' },
-        { id: 'claude-opus-4-5-20251101', name: 'Claude Opus 4.5' },
-        { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4' },
-        { id: 'claude-3-7-sonnet-20250219', name: 'Claude 3.7 Sonnet' },
-        { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku' },
+        { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', contextWindow: 200000, modalities: ['image', 'pdf'] },
+        { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', contextWindow: 200000, modalities: ['image', 'pdf'] },
+        { id: 'claude-opus-4-5-20251101', name: 'Claude Opus 4.5', contextWindow: 200000, modalities: ['image', 'pdf'] },
+        { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', contextWindow: 200000, modalities: ['image', 'pdf'] },
+        { id: 'claude-3-7-sonnet-20250219', name: 'Claude 3.7 Sonnet', contextWindow: 200000, modalities: ['image', 'pdf'] },
+        { id: 'claude-3-haiku-20240307', name: 'Claude 3 Haiku', contextWindow: 200000, modalities: ['image'] },
     ]
 };
 
+const SKILL_SYNC_INTERVAL = 30000;
+
 const DEFAULT_CUSTOM_COMMANDS: CustomCommand[] = [
     { id: '1', provider: 'gemini', modelId: 'gemini-2.5-flash', name: 'Gemini Flash', command: '/gemini', promptTemplate: PROMPT_TEMPLATES.basic },
     { id: '2', provider: 'openai', modelId: 'gpt-4o-mini', name: 'GPT-4o Mini', command: '/gpt', promptTemplate: PROMPT_TEMPLATES.basic },
@@ -174,16 +276,79 @@ const DEFAULT_SETTINGS: PluginSettings = {
     googleApiKey: '',
     openaiApiKey: '',
     claudeApiKey: '',
+    localBaseUrl: 'http://localhost:11434/v1',
+    localApiKey: '',
+    localHeaders: '',
+    localModels: '',
+    localContextWindow: 8192,
     defaultFolder: '',
+    noteTemplatePath: '',
+    noteTemplate: DEFAULT_NOTE_TEMPLATE,
+    noteFilenamePattern: '{{title}}',
+    noteFolderRules: [],
     customCommands: DEFAULT_CUSTOM_COMMANDS,
-    skills: []
+    skills: [],
+    sessions: [],
+    activeSessionId: '',
+    modelCache: {},
+    retrievalTopK: 8,
+    agentMaxSteps: 8,
+    requestTimeout: 120,
+    maxRetries: 3,
+    modelPrices: UsageTracker.defaultPrices(),
+    usageByDay: {},
+    budgets: {},
+    budgetMode: 'warn',
+    keyStorage: {},
+    keyEnvVars: {},
+    apiKeys: {}
 }
 
 export default class AITerminalPlugin extends Plugin {
     settings: PluginSettings;
+    providers: ProviderRegistry = new ProviderRegistry();
+    vaultIndex: VaultIndex;
+    editorActions: EditorActions;
+    skillStore: SkillStore;
+    noteCreator: NoteCreator;
+    usage: UsageTracker;
+    keys: KeyStore;
+    private customCommandIds: string[] = [];
+    private customCommandsKey = '';
 
     async onload() {
         await this.loadSettings();
+        this.keys = new KeyStore(this);
+
+        // Skills are read from SKILL.md files once the vault is ready, then polled for changes
+        this.noteCreator = new NoteCreator(this);
+        this.usage = new UsageTracker(this);
+        this.skillStore = new SkillStore(this);
+        this.app.workspace.onLayoutReady(() => this.skillStore.load().catch(e => {
+            console.error("AI Terminal: could not load skills", e);
+            new Notice(`Could not load skills: ${e.message}`);
+        }));
+        this.registerInterval(window.setInterval(() => this.skillStore.sync(), SKILL_SYNC_INTERVAL));
+
+        this.providers.register(new GeminiProvider(this));
+        this.providers.register(new OpenAIProvider(this));
+        this.providers.register(new ClaudeProvider(this));
+        this.providers.register(new LocalProvider(this));
+
+        // Keep the "Ask the vault" index in sync with the vault
+        this.vaultIndex = new VaultIndex(this.app);
+        this.registerEvent(this.app.vault.on('create', (file) => {
+            if (file instanceof TFile) this.vaultIndex.onModify(file);
+        }));
+        this.registerEvent(this.app.vault.on('modify', (file) => {
+            if (file instanceof TFile) this.vaultIndex.onModify(file);
+        }));
+        this.registerEvent(this.app.vault.on('delete', (file) => {
+            this.vaultIndex.onDelete(file.path);
+        }));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            if (file instanceof TFile) this.vaultIndex.onRename(file, oldPath);
+        }));
 
         // Register View
         this.registerView(
@@ -191,6 +356,11 @@ export default class AITerminalPlugin extends Plugin {
             (leaf) => new TerminalView(leaf, this)
         );
 
+        this.registerHoverLinkSource(TERMINAL_VIEW_TYPE, {
+            display: 'AI Terminal',
+            defaultMod: true
+        });
+
         // Ribbon Icon
         this.addRibbonIcon('bot', 'Open AI Terminal', () => {
             this.activateView();
@@ -220,6 +390,66 @@ export default class AITerminalPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'attach-selection',
+            name: 'Attach selection to AI Terminal',
+            editorCheckCallback: (checking, editor, ctx) => {
+                if (!editor.somethingSelected()) return false;
+                if (!checking) {
+                    this.activateView().then(() => {
+                        const view = this.app.workspace.getLeavesOfType(TERMINAL_VIEW_TYPE)[0]?.view;
+                        if (view instanceof TerminalView) view.attachSelection(editor, ctx.file);
+                    });
+                }
+                return true;
+            }
+        });
+
+        // Run a custom command on the selection and write the result back into the note
+        this.editorActions = new EditorActions(this);
+        const modes: InsertMode[] = ['below', 'replace', 'cursor'];
+        modes.forEach(mode => {
+            this.addCommand({
+                id: `run-command-${mode}`,
+                name: `Run custom command on selection: ${INSERT_MODE_LABELS[mode]}`,
+                editorCheckCallback: (checking, editor) => {
+                    if (!editor.somethingSelected()) return false;
+                    if (!checking) this.editorActions.chooseAndRun(editor, mode);
+                    return true;
+                }
+            });
+        });
+
+        this.registerCustomCommands();
+
+        this.registerEvent(this.app.workspace.on('editor-menu', (menu, editor) => {
+            if (!editor.somethingSelected()) return;
+            modes.forEach(mode => {
+                menu.addItem(item => item
+                    .setTitle(`AI Terminal: ${INSERT_MODE_LABELS[mode]}`)
+                    .setIcon('bot')
+                    .setSection('selection')
+                    .onClick(() => this.editorActions.chooseAndRun(editor, mode)));
+            });
+        }));
+
+        this.addCommand({
+            id: 'refresh-models',
+            name: 'Refresh model lists',
+            callback: () => {
+                this.refreshModels();
+            }
+        });
+
+        this.addCommand({
+            id: 'show-usage',
+            name: 'Show token usage and costs',
+            callback: () => {
+                const view = this.app.workspace.getLeavesOfType(TERMINAL_VIEW_TYPE)[0]?.view;
+                new UsageStatsModal(this, view instanceof TerminalView ? view.chatHistory : []).open();
+            }
+        });
+
         this.addSettingTab(new AITerminalSettingTab(this.app, this));
     }
 
@@ -238,7 +468,7 @@ export default class AITerminalPlugin extends Plugin {
     }
 
     onunload() {
-        // Cleanup
+        this.vaultIndex.unload();
     }
 
     async loadSettings() {
@@ -249,46 +479,106 @@ export default class AITerminalPlugin extends Plugin {
         await this.saveData(this.settings);
     }
 
-    async saveSkillFile(skill: Skill) {
-        const skillsDir = '.obsidian/skills';
-        const folderExists = this.app.vault.getAbstractFileByPath(skillsDir);
-        if (!folderExists) {
-            await this.app.vault.createFolder(skillsDir);
-        }
-        const fileName = skill.name.replace(/[\\/:*?"<>|]/g, '-').toLowerCase();
-        const filePath = `${skillsDir}/${fileName}/SKILL.md`;
-        const subDir = `${skillsDir}/${fileName}`;
-        const subDirExists = this.app.vault.getAbstractFileByPath(subDir);
-        if (!subDirExists) {
-            await this.app.vault.createFolder(subDir);
-        }
-        const content = `---\nname: ${skill.name}\ndescription: ${skill.description}\n---\n\n${skill.instructions}`;
-        const existing = this.app.vault.getAbstractFileByPath(filePath);
-        if (existing) {
-            await this.app.vault.modify(existing as any, content);
-        } else {
-            await this.app.vault.create(filePath, content);
-        }
+    // One palette command per custom command, so each can be bound to a hotkey.
+    // Ids derive from the command's id, which keeps hotkeys across renames.
+    // The settings tab calls this once an edit is finished, not on every keystroke;
+    // nothing is re-registered unless a command was added, removed or renamed.
+    registerCustomCommands() {
+        if (!this.editorActions) return;
+        const key = JSON.stringify(this.settings.customCommands.map(cmd => [cmd.id, cmd.name, cmd.command]));
+        if (key === this.customCommandsKey) return;
+        this.customCommandsKey = key;
+        this.customCommandIds.forEach(id => this.removeCommand(id));
+        this.customCommandIds = this.settings.customCommands.map(cmd => {
+            const id = `custom-command-${cmd.id}`;
+            this.addCommand({
+                id,
+                name: `Run ${cmd.name || cmd.command} (${cmd.command})`,
+                callback: () => {
+                    const current = this.settings.customCommands.find(c => c.id === cmd.id);
+                    if (current) this.editorActions.runCommand(current);
+                }
+            });
+            return id;
+        });
+    }
+
+    /**
+     * Public API for other plugins to add a backend, e.g.
+     * `app.plugins.getPlugin('obsidian-ai-terminal').registerProvider(myProvider)`.
+     * The returned function removes the provider again.
+     */
+    registerProvider(provider: AIProvider): () => void {
+        const unregister = this.providers.register(provider);
+        this.register(unregister);
+        return unregister;
+    }
+
+    // Built-in models followed by any newer ones found by the last model refresh.
+    // Once a provider's models were fetched, built-in ones it no longer lists are left out
+    getModels(provider: ProviderId): ModelInfo[] {
+        const impl = this.providers.get(provider);
+        const builtIn = impl ? impl.getModels() : [];
+        const cached = this.settings.modelCache[provider];
+        if (!cached) return builtIn;
+        const live = new Set(cached.models.map(m => m.id));
+        const known = new Set(builtIn.map(m => m.id));
+        return [...builtIn.filter(m => live.has(m.id)), ...cached.models.filter(m => !known.has(m.id))];
+    }
+
+    // Same list the model dropdowns offer
+    isModelAvailable(provider: ProviderId, modelId: string): boolean {
+        return this.getModels(provider).some(m => m.id === modelId);
     }
 
-    async deleteSkillFile(skill: Skill) {
-        const fileName = skill.name.replace(/[\\/:*?"<>|]/g, '-').toLowerCase();
-        const dirPath = `.obsidian/skills/${fileName}`;
-        const dir = this.app.vault.getAbstractFileByPath(dirPath);
-        if (dir) {
-            await this.app.vault.delete(dir, true);
+    getUnavailableCommands(): CustomCommand[] {
+        return this.settings.customCommands.filter(cmd => !this.isModelAvailable(cmd.provider, cmd.modelId));
+    }
+
+    async refreshModels(): Promise<void> {
+        const refreshed: string[] = [];
+        const failed: string[] = [];
+        for (const provider of this.providers.getAll()) {
+            if (!provider.listModels) continue;
+            try {
+                const models = await provider.listModels();
+                this.settings.modelCache[provider.id] = { fetchedAt: Date.now(), models };
+                refreshed.push(`${provider.label} (${models.length})`);
+            } catch (e: any) {
+                failed.push(`${provider.label}: ${e.message}`);
+            }
         }
+        await this.saveSettings();
+
+        let message = refreshed.length > 0 ? `Models refreshed: ${refreshed.join(', ')}` : 'No model lists refreshed';
+        if (failed.length > 0) message += `\nFailed: ${failed.join('; ')}`;
+        const stale = this.getUnavailableCommands();
+        if (stale.length > 0) message += `\n${stale.length} command(s) use a model that no longer exists: ${stale.map(c => c.command).join(', ')}`;
+        new Notice(message, 8000);
+
+        this.app.workspace.getLeavesOfType(TERMINAL_VIEW_TYPE).forEach(leaf => {
+            if (leaf.view instanceof TerminalView) leaf.view.updateModelSelector();
+        });
+    }
+
+    async createNoteFromResponse(content: string, source: NoteSource = {}) {
+        await this.noteCreator.create(content, source);
     }
 
-    getActiveSkillsPrompt(): string {
-        const activeSkills = this.settings.skills.filter(s => s.enabled);
-        if (activeSkills.length === 0) return '';
+    // Only skills relevant to the message, plus those pinned to the command, are sent
+    getSkillsPrompt(message: string, pinnedIds: string[] = []): { prompt: string, applied: Skill[] } {
+        const activeSkills = SkillSelector.select(this.settings.skills, message, pinnedIds);
+        if (activeSkills.length === 0) return { prompt: '', applied: [] };
         let prompt = '\n\n<skills>\n';
         activeSkills.forEach(skill => {
-            prompt += `<skill name="${skill.name}">\n${skill.instructions}\n</skill>\n`;
+            prompt += `<skill name="${skill.name}">\n${skill.instructions}\n`;
+            this.skillStore.getResources(skill).forEach(resource => {
+                prompt += `<resource path="${resource.path}">\n${resource.content}\n</resource>\n`;
+            });
+            prompt += `</skill>\n`;
         });
         prompt += '</skills>';
-        return prompt;
+        return { prompt, applied: activeSkills };
     }
 }
 
@@ -300,44 +590,92 @@ class AITerminalSettingTab extends PluginSettingTab {
         this.plugin = plugin;
     }
 
+    hide(): void {
+        this.plugin.registerCustomCommands();
+    }
+
     display(): void {
         const { containerEl } = this;
         containerEl.empty();
         containerEl.createEl('h2', { text: 'AI Terminal Settings' });
 
-        // API Keys Section
-        containerEl.createEl('h3', { text: 'API Keys' });
+        // Provider Section
+        containerEl.createEl('h3', { text: 'Providers' });
 
-        new Setting(containerEl)
-            .setName('Google Gemini API Key')
-            .setDesc('Enter your Google Gemini API Key')
-            .addText(text => text
-                .setPlaceholder('AIzaSy...')
-                .setValue(this.plugin.settings.googleApiKey)
-                .onChange(async (value) => {
-                    this.plugin.settings.googleApiKey = value;
+        this.plugin.providers.getAll().forEach(provider => {
+            if (provider.credentials.length === 0) return;
+            new Setting(containerEl).setName(provider.name).setHeading();
+            if (provider.description) {
+                containerEl.createEl('p', { text: provider.description, cls: 'setting-item-description' });
+            }
+
+            provider.credentials.forEach(field => {
+                if (field.secret) {
+                    this.renderKeyField(containerEl, provider, field);
+                    return;
+                }
+                const setting = new Setting(containerEl)
+                    .setName(field.name)
+                    .setDesc(field.desc);
+                const onChange = async (value: string) => {
+                    field.setValue(value);
                     await this.plugin.saveSettings();
+                };
+                if (field.multiline) {
+                    setting.addTextArea(text => text
+                        .setPlaceholder(field.placeholder || '')
+                        .setValue(field.getValue())
+                        .onChange(onChange));
+                } else {
+                    setting.addText(text => text
+                        .setPlaceholder(field.placeholder || '')
+                        .setValue(field.getValue())
+                        .onChange(onChange));
+                }
+            });
+
+            if (provider.listModels) this.renderConnectionTest(containerEl, provider);
+        });
+
+        const cacheTimes = Object.keys(this.plugin.settings.modelCache)
+            .map(id => this.plugin.settings.modelCache[id].fetchedAt);
+        const lastRefresh = cacheTimes.length > 0
+            ? `Last refreshed ${moment(Math.max(...cacheTimes)).format('YYYY-MM-DD HH:mm')}.`
+            : 'Using the built-in model lists.';
+
+        new Setting(containerEl)
+            .setName('Refresh Models')
+            .setDesc(`Fetch the current model lists from each provider with the keys above. ${lastRefresh}`)
+            .addButton(button => button
+                .setButtonText('Refresh models')
+                .onClick(async () => {
+                    button.setDisabled(true).setButtonText('Refreshing...');
+                    await this.plugin.refreshModels();
+                    this.display();
                 }));
 
         new Setting(containerEl)
-            .setName('OpenAI API Key')
-            .setDesc('Enter your OpenAI API Key')
+            .setName('Request Timeout')
+            .setDesc('Seconds to wait for a response, or for the next chunk while streaming. 0 waits indefinitely.')
             .addText(text => text
-                .setPlaceholder('sk-...')
-                .setValue(this.plugin.settings.openaiApiKey)
+                .setPlaceholder('120')
+                .setValue(String(this.plugin.settings.requestTimeout))
                 .onChange(async (value) => {
-                    this.plugin.settings.openaiApiKey = value;
+                    const parsed = parseInt(value, 10);
+                    if (isNaN(parsed) || parsed < 0) return;
+                    this.plugin.settings.requestTimeout = parsed;
                     await this.plugin.saveSettings();
                 }));
 
         new Setting(containerEl)
-            .setName('Claude API Key')
-            .setDesc('Enter your Claude API Key')
-            .addText(text => text
-                .setPlaceholder('sk-ant-...')
-                .setValue(this.plugin.settings.claudeApiKey)
+            .setName('Retries')
+            .setDesc('How often to retry when a provider is rate limited or overloaded (429, 503, 529), waiting longer each time or as long as the provider asks')
+            .addSlider(slider => slider
+                .setLimits(0, 6, 1)
+                .setValue(this.plugin.settings.maxRetries)
+                .setDynamicTooltip()
                 .onChange(async (value) => {
-                    this.plugin.settings.claudeApiKey = value;
+                    this.plugin.settings.maxRetries = value;
                     await this.plugin.saveSettings();
                 }));
 
@@ -355,6 +693,250 @@ class AITerminalSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('File Name Pattern')
+            .setDesc('Pattern for the file name of new notes, e.g. "{{title}} {{date:YYYYMMDD}}". You can change the name before the note is created.')
+            .addText(text => text
+                .setPlaceholder('{{title}}')
+                .setValue(this.plugin.settings.noteFilenamePattern)
+                .onChange(async (value) => {
+                    this.plugin.settings.noteFilenamePattern = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Template File')
+            .setDesc('Path of a note to use as template. Leave empty to use the template below.')
+            .addText(text => text
+                .setPlaceholder('Templates/AI Note.md')
+                .setValue(this.plugin.settings.noteTemplatePath)
+                .onChange(async (value) => {
+                    this.plugin.settings.noteTemplatePath = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('div', { cls: 'prompt-section-header', text: 'Note Template' });
+        containerEl.createEl('p', {
+            cls: 'prompt-section-desc',
+            text: `Applied to responses without their own frontmatter. ${NOTE_TEMPLATE_HELP}`
+        });
+        const noteTemplateContainer = containerEl.createDiv({ cls: 'prompt-template-container' });
+        const noteTemplateArea = new TextAreaComponent(noteTemplateContainer);
+        noteTemplateArea.setValue(this.plugin.settings.noteTemplate);
+        noteTemplateArea.inputEl.rows = 10;
+        noteTemplateArea.inputEl.style.width = '100%';
+        noteTemplateArea.onChange(async (value) => {
+            this.plugin.settings.noteTemplate = value;
+            await this.plugin.saveSettings();
+        });
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Reset Template')
+                .onClick(async () => {
+                    noteTemplateArea.setValue(DEFAULT_NOTE_TEMPLATE);
+                    this.plugin.settings.noteTemplate = DEFAULT_NOTE_TEMPLATE;
+                    await this.plugin.saveSettings();
+                }));
+
+        containerEl.createEl('div', { cls: 'prompt-section-header', text: 'Folder Rules' });
+        containerEl.createEl('p', {
+            cls: 'prompt-section-desc',
+            text: 'Route new notes by the custom command that produced them or by their frontmatter type. The first matching rule wins; otherwise the default folder is used.'
+        });
+        this.plugin.settings.noteFolderRules.forEach((rule, index) => {
+            new Setting(containerEl)
+                .addDropdown(dropdown => dropdown
+                    .addOption('command', 'Command is')
+                    .addOption('type', 'Type is')
+                    .setValue(rule.match)
+                    .onChange(async (value: 'command' | 'type') => {
+                        rule.match = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('/summarize or Summary')
+                    .setValue(rule.value)
+                    .onChange(async (value) => {
+                        rule.value = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addText(text => text
+                    .setPlaceholder('Folder')
+                    .setValue(rule.folder)
+                    .onChange(async (value) => {
+                        rule.folder = value;
+                        await this.plugin.saveSettings();
+                    }))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove rule')
+                    .onClick(async () => {
+                        this.plugin.settings.noteFolderRules.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('+ Add Rule')
+                .onClick(async () => {
+                    this.plugin.settings.noteFolderRules.push({ match: 'command', value: '', folder: '' });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        // Vault Retrieval Section
+        containerEl.createEl('h3', { text: 'Vault Retrieval' });
+        containerEl.createEl('p', { 
+            text: '"Ask the vault" mode searches a local keyword (BM25) index of your notes and sends the best matching passages as context. The index never leaves this device.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Passages per Question')
+            .setDesc('How many of the most relevant note passages to include')
+            .addSlider(slider => slider
+                .setLimits(1, 30, 1)
+                .setValue(this.plugin.settings.retrievalTopK)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.retrievalTopK = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Rebuild Index')
+            .setDesc(this.plugin.vaultIndex.ready
+                ? `${this.plugin.vaultIndex.size} notes indexed.`
+                : 'The index is built the first time "Ask the vault" is used.')
+            .addButton(button => button
+                .setButtonText('Rebuild')
+                .onClick(async () => {
+                    button.setDisabled(true).setButtonText('Indexing...');
+                    await this.plugin.vaultIndex.rebuild();
+                    new Notice(`Indexed ${this.plugin.vaultIndex.size} notes`);
+                    this.display();
+                }));
+
+        // Agent Mode Section
+        containerEl.createEl('h3', { text: 'Agent Mode' });
+        containerEl.createEl('p', {
+            text: 'In agent mode the AI can search, read and list notes, follow backlinks, and create or append to notes. Every change to the vault asks for confirmation first.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Max Steps')
+            .setDesc('How many tool calls the AI may make for one message')
+            .addSlider(slider => slider
+                .setLimits(1, 30, 1)
+                .setValue(this.plugin.settings.agentMaxSteps)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.agentMaxSteps = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Usage Section
+        containerEl.createEl('h3', { text: 'Usage & Costs' });
+        containerEl.createEl('p', {
+            text: 'Token counts come from the providers; costs are estimated from the price table below (USD per million tokens).',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Usage Statistics')
+            .setDesc('Usage per session, day, month, provider and model')
+            .addButton(button => button
+                .setButtonText('Show usage')
+                .onClick(() => new UsageStatsModal(this.plugin).open()));
+
+        new Setting(containerEl)
+            .setName('When a Budget Is Reached')
+            .setDesc('Warn before sending, or refuse to send until next month or a higher budget')
+            .addDropdown(dropdown => dropdown
+                .addOption('warn', 'Warn')
+                .addOption('block', 'Block')
+                .setValue(this.plugin.settings.budgetMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.budgetMode = value as BudgetMode;
+                    await this.plugin.saveSettings();
+                }));
+
+        this.plugin.providers.getAll().forEach(provider => {
+            const spent = this.plugin.usage.getMonthSpend(provider.id);
+            new Setting(containerEl)
+                .setName(`${provider.name} Monthly Budget`)
+                .setDesc(`USD, empty for no limit. Spent this month: ${UsageTracker.formatCost(spent)}`)
+                .addText(text => text
+                    .setPlaceholder('No limit')
+                    .setValue(this.plugin.settings.budgets[provider.id] ? String(this.plugin.settings.budgets[provider.id]) : '')
+                    .onChange(async (value) => {
+                        const parsed = parseFloat(value);
+                        if (value.trim() && (isNaN(parsed) || parsed < 0)) return;
+                        if (!value.trim() || parsed === 0) {
+                            delete this.plugin.settings.budgets[provider.id];
+                        } else {
+                            this.plugin.settings.budgets[provider.id] = parsed;
+                        }
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        new Setting(containerEl).setName('Model Prices').setHeading()
+            .setDesc('Input and output price per million tokens. An entry also covers model ids that start with it.');
+
+        const prices = this.plugin.settings.modelPrices;
+        Object.keys(prices).sort().forEach(modelId => {
+            const price = prices[modelId];
+            const priceInput = (label: string, field: keyof ModelPrice) => (text: TextComponent) => {
+                text.setPlaceholder(label)
+                    .setValue(String(price[field]))
+                    .onChange(async (value: string) => {
+                        const parsed = parseFloat(value);
+                        if (isNaN(parsed) || parsed < 0) return;
+                        price[field] = parsed;
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.style.width = '80px';
+                text.inputEl.setAttr('aria-label', label);
+            };
+            new Setting(containerEl)
+                .setName(modelId)
+                .addText(priceInput('Input $/M', 'input'))
+                .addText(priceInput('Output $/M', 'output'))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove price')
+                    .onClick(async () => {
+                        delete prices[modelId];
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+        });
+
+        let newPriceModel = '';
+        new Setting(containerEl)
+            .setName('Add Model Price')
+            .addText(text => text
+                .setPlaceholder('Model id')
+                .onChange(value => newPriceModel = value.trim()))
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    if (!newPriceModel || prices[newPriceModel]) return;
+                    prices[newPriceModel] = { input: 0, output: 0 };
+                    await this.plugin.saveSettings();
+                    this.display();
+                }))
+            .addButton(button => button
+                .setButtonText('Reset to defaults')
+                .onClick(async () => {
+                    this.plugin.settings.modelPrices = UsageTracker.defaultPrices();
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
         containerEl.createEl('h3', { text: 'Custom Commands' });
         containerEl.createEl('p', { 
             text: 'Create custom slash commands with any model and prompt template.',
@@ -371,6 +953,13 @@ class AITerminalSettingTab extends PluginSettingTab {
             const commandInfo = commandHeader.createDiv({ cls: 'command-list-info' });
             commandInfo.createEl('span', { text: cmd.command, cls: 'command-slash' });
             commandInfo.createEl('span', { text: cmd.name, cls: 'command-name' });
+            if (!this.plugin.isModelAvailable(cmd.provider, cmd.modelId)) {
+                commandInfo.createEl('span', {
+                    text: '⚠ model not found',
+                    cls: 'command-model-warning',
+                    attr: { title: `"${cmd.modelId}" is not offered by this provider anymore` }
+                });
+            }
             
             const headerActions = commandHeader.createDiv({ cls: 'command-header-actions' });
             const deleteBtn = headerActions.createEl('button', { 
@@ -382,6 +971,7 @@ class AITerminalSettingTab extends PluginSettingTab {
                 e.stopPropagation();
                 this.plugin.settings.customCommands.splice(index, 1);
                 await this.plugin.saveSettings();
+                this.plugin.registerCustomCommands();
                 this.display();
             });
             
@@ -405,60 +995,70 @@ class AITerminalSettingTab extends PluginSettingTab {
             new Setting(commandDetails)
                 .setName('Name')
                 .setDesc('Display name shown in the command list')
-                .addText(text => text
-                    .setPlaceholder('e.g., Note Summarizer')
-                    .setValue(cmd.name)
-                    .onChange(async (value) => {
-                        this.plugin.settings.customCommands[index].name = value;
-                        await this.plugin.saveSettings();
-                        commandInfo.querySelector('.command-name')!.textContent = value;
-                    }));
+                .addText(text => {
+                    text
+                        .setPlaceholder('e.g., Note Summarizer')
+                        .setValue(cmd.name)
+                        .onChange(async (value) => {
+                            this.plugin.settings.customCommands[index].name = value;
+                            await this.plugin.saveSettings();
+                            commandInfo.querySelector('.command-name')!.textContent = value;
+                        });
+                    text.inputEl.addEventListener('blur', () => this.plugin.registerCustomCommands());
+                });
 
             new Setting(commandDetails)
                 .setName('Command')
                 .setDesc('Slash command to trigger (type this in chat to activate)')
-                .addText(text => text
-                    .setPlaceholder('e.g., /summarize')
-                    .setValue(cmd.command)
-                    .onChange(async (value) => {
-                        this.plugin.settings.customCommands[index].command = value;
-                        await this.plugin.saveSettings();
-                        commandInfo.querySelector('.command-slash')!.textContent = value;
-                    }));
+                .addText(text => {
+                    text
+                        .setPlaceholder('e.g., /summarize')
+                        .setValue(cmd.command)
+                        .onChange(async (value) => {
+                            this.plugin.settings.customCommands[index].command = value;
+                            await this.plugin.saveSettings();
+                            commandInfo.querySelector('.command-slash')!.textContent = value;
+                        });
+                    text.inputEl.addEventListener('blur', () => this.plugin.registerCustomCommands());
+                });
 
             let modelDropdownEl: HTMLSelectElement;
 
             new Setting(commandDetails)
                 .setName('Provider')
                 .setDesc('AI provider to use for this command')
-                .addDropdown(dropdown => dropdown
-                    .addOption('gemini', 'Google Gemini')
-                    .addOption('openai', 'OpenAI')
-                    .addOption('claude', 'Claude')
-                    .setValue(cmd.provider)
-                    .onChange(async (value: 'gemini' | 'openai' | 'claude') => {
+                .addDropdown(dropdown => {
+                    this.plugin.providers.getAll().forEach(provider => {
+                        dropdown.addOption(provider.id, provider.name);
+                    });
+                    dropdown.setValue(cmd.provider);
+                    dropdown.onChange(async (value: ProviderId) => {
                         this.plugin.settings.customCommands[index].provider = value;
-                        const models = PROVIDER_MODELS[value];
-                        this.plugin.settings.customCommands[index].modelId = models[0].id;
+                        const models = this.plugin.getModels(value);
+                        this.plugin.settings.customCommands[index].modelId = models.length > 0 ? models[0].id : '';
                         
                         modelDropdownEl.empty();
-                        models.forEach(model => {
+                        models.forEach((model, i) => {
                             const opt = modelDropdownEl.createEl('option', { value: model.id, text: model.name });
-                            if (model.id === models[0].id) opt.selected = true;
+                            if (i === 0) opt.selected = true;
                         });
                         
                         await this.plugin.saveSettings();
-                    }));
+                    });
+                });
 
             new Setting(commandDetails)
                 .setName('Model')
                 .setDesc('Select the AI model to use')
                 .addDropdown(dropdown => {
                     modelDropdownEl = dropdown.selectEl;
-                    const models = PROVIDER_MODELS[cmd.provider];
+                    const models = this.plugin.getModels(cmd.provider);
                     models.forEach(model => {
                         dropdown.addOption(model.id, model.name);
                     });
+                    if (cmd.modelId && !models.some(m => m.id === cmd.modelId)) {
+                        dropdown.addOption(cmd.modelId, `${cmd.modelId} (missing)`);
+                    }
                     dropdown.setValue(cmd.modelId);
                     dropdown.onChange(async (value) => {
                         this.plugin.settings.customCommands[index].modelId = value;
@@ -466,11 +1066,44 @@ class AITerminalSettingTab extends PluginSettingTab {
                     });
                 });
 
+            new Setting(commandDetails)
+                .setName('Output')
+                .setDesc('Where the answer goes when this command is run from the command palette or a hotkey')
+                .addDropdown(dropdown => dropdown
+                    .addOption('terminal', 'AI Terminal')
+                    .addOption('note', 'New note')
+                    .addOption('cursor', 'Insert at cursor')
+                    .setValue(cmd.output || 'terminal')
+                    .onChange(async (value: CommandOutput) => {
+                        this.plugin.settings.customCommands[index].output = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            if (this.plugin.settings.skills.length > 0) {
+                const pinnedSetting = new Setting(commandDetails)
+                    .setName('Pinned skills')
+                    .setDesc('Always applied when this command runs; other skills are only applied when relevant to the message');
+                const pinnedContainer = pinnedSetting.controlEl.createDiv({ cls: 'pinned-skills' });
+                this.plugin.settings.skills.forEach(skill => {
+                    const label = pinnedContainer.createEl('label', { cls: 'pinned-skill' });
+                    const checkbox = label.createEl('input', { type: 'checkbox' });
+                    checkbox.checked = (cmd.skillIds || []).indexOf(skill.id) !== -1;
+                    label.appendText(skill.name);
+                    checkbox.addEventListener('change', async () => {
+                        const ids = (cmd.skillIds || []).filter(id => id !== skill.id);
+                        if (checkbox.checked) ids.push(skill.id);
+                        this.plugin.settings.customCommands[index].skillIds = ids;
+                        await this.plugin.saveSettings();
+                    });
+                });
+            }
+
             commandDetails.createEl('div', { cls: 'prompt-section-header', text: 'Prompt Template' });
             commandDetails.createEl('p', { 
                 cls: 'prompt-section-desc',
                 text: 'System prompt that defines AI behavior. Use templates below for Obsidian-optimized outputs.'
             });
+            commandDetails.createEl('p', { cls: 'prompt-section-desc', text: TEMPLATE_VARIABLES_HELP });
 
             const templateBtnContainer = commandDetails.createDiv({ cls: 'template-btn-container' });
             
@@ -481,9 +1114,21 @@ class AITerminalSettingTab extends PluginSettingTab {
             textArea.inputEl.style.width = '100%';
             textArea.onChange(async (value) => {
                 this.plugin.settings.customCommands[index].promptTemplate = value;
+                updatePreview(value);
                 await this.plugin.saveSettings();
             });
 
+            commandDetails.createEl('div', { cls: 'prompt-section-header', text: 'Preview' });
+            const previewEl = commandDetails.createEl('pre', { cls: 'prompt-preview' });
+            const previewErrorsEl = commandDetails.createDiv({ cls: 'prompt-preview-errors' });
+            // Expanded with the current date, active note and selection, and a sample message
+            const updatePreview = (template: string) => {
+                const preview = TemplateVariables.expand(this.app, template, { input: '(your message)' });
+                previewEl.setText(preview.text);
+                previewErrorsEl.setText(preview.errors.join('\n'));
+            };
+            updatePreview(cmd.promptTemplate);
+
             const createTemplateBtn = (label: string, template: string) => {
                 const btn = templateBtnContainer.createEl('button', { 
                     cls: 'template-btn',
@@ -492,6 +1137,7 @@ class AITerminalSettingTab extends PluginSettingTab {
                 btn.addEventListener('click', async () => {
                     textArea.setValue(template);
                     this.plugin.settings.customCommands[index].promptTemplate = template;
+                    updatePreview(template);
                     await this.plugin.saveSettings();
                 });
             };
@@ -510,6 +1156,7 @@ class AITerminalSettingTab extends PluginSettingTab {
             clearBtn.addEventListener('click', async () => {
                 textArea.setValue('');
                 this.plugin.settings.customCommands[index].promptTemplate = '';
+                updatePreview('');
                 await this.plugin.saveSettings();
             });
 
@@ -530,6 +1177,7 @@ class AITerminalSettingTab extends PluginSettingTab {
             });
             saveBtn.addEventListener('click', async () => {
                 await this.plugin.saveSettings();
+                this.plugin.registerCustomCommands();
                 commandDetails.addClass('hidden');
                 chevron.removeClass('expanded');
             });
@@ -540,23 +1188,25 @@ class AITerminalSettingTab extends PluginSettingTab {
                 .setButtonText('+ Add Command')
                 .setCta()
                 .onClick(async () => {
+                    const models = this.plugin.getModels('gemini');
                     const newCommand: CustomCommand = {
                         id: Date.now().toString(),
                         provider: 'gemini',
-                        modelId: 'gemini-2.0-flash-exp',
+                        modelId: models.length > 0 ? models[0].id : '',
                         name: 'New Command',
                         command: '/new',
                         promptTemplate: 'You are an expert knowledge synthesizer. Output in Markdown.'
                     };
                     this.plugin.settings.customCommands.push(newCommand);
                     await this.plugin.saveSettings();
+                    this.plugin.registerCustomCommands();
                     this.display();
                 }));
 
         // Skills Section
         containerEl.createEl('h3', { text: 'Skills' });
         containerEl.createEl('p', { 
-            text: 'Add skills to extend AI capabilities. Skills are saved as SKILL.md files in .obsidian/skills/ and injected into system prompts.',
+            text: `Add skills to extend AI capabilities. Skills are SKILL.md files in ${this.plugin.skillStore.dir}/; enabled skills are added to the system prompt when relevant to the message. Skill folders added there are picked up automatically.`,
             cls: 'setting-item-description'
         });
 
@@ -591,9 +1241,11 @@ class AITerminalSettingTab extends PluginSettingTab {
             deleteBtn.innerHTML = '×';
             deleteBtn.addEventListener('click', async (e) => {
                 e.stopPropagation();
-                await this.plugin.deleteSkillFile(skill);
-                this.plugin.settings.skills.splice(index, 1);
-                await this.plugin.saveSettings();
+                try {
+                    await this.plugin.skillStore.delete(skill);
+                } catch (e: any) {
+                    new Notice(`Could not delete skill "${skill.name}": ${e.message}`);
+                }
                 this.display();
             });
             
@@ -617,14 +1269,22 @@ class AITerminalSettingTab extends PluginSettingTab {
             new Setting(skillDetails)
                 .setName('Name')
                 .setDesc('Unique skill name (used as folder name)')
-                .addText(text => text
-                    .setPlaceholder('e.g., code-review')
-                    .setValue(skill.name)
-                    .onChange(async (value) => {
-                        this.plugin.settings.skills[index].name = value;
-                        await this.plugin.saveSettings();
-                        skillInfo.querySelector('.command-name')!.textContent = value;
-                    }));
+                .addText(text => {
+                    text
+                        .setPlaceholder('e.g., code-review')
+                        .setValue(skill.name)
+                        .onChange(async (value) => {
+                            skill.name = value;
+                            await this.plugin.saveSettings();
+                            this.plugin.skillStore.scheduleWrite(skill);
+                            skillInfo.querySelector('.command-name')!.textContent = value;
+                        });
+                    // The folder follows the name once editing is done
+                    text.inputEl.addEventListener('blur', () => {
+                        this.plugin.skillStore.write(skill)
+                            .catch(e => new Notice(`Could not rename skill "${skill.name}": ${e.message}`));
+                    });
+                });
 
             new Setting(skillDetails)
                 .setName('Description')
@@ -635,6 +1295,19 @@ class AITerminalSettingTab extends PluginSettingTab {
                     .onChange(async (value) => {
                         this.plugin.settings.skills[index].description = value;
                         await this.plugin.saveSettings();
+                        this.plugin.skillStore.scheduleWrite(skill);
+                    }));
+
+            new Setting(skillDetails)
+                .setName('Keywords')
+                .setDesc('Comma-separated words that apply this skill whenever a message contains them. Otherwise the skill is applied when the message matches its name and description.')
+                .addText(text => text
+                    .setPlaceholder('e.g., review, pull request')
+                    .setValue((skill.keywords || []).join(', '))
+                    .onChange(async (value) => {
+                        this.plugin.settings.skills[index].keywords = value.split(',').map(k => k.trim()).filter(k => k.length > 0);
+                        await this.plugin.saveSettings();
+                        this.plugin.skillStore.scheduleWrite(skill);
                     }));
 
             skillDetails.createEl('div', { cls: 'prompt-section-header', text: 'Instructions' });
@@ -651,8 +1324,16 @@ class AITerminalSettingTab extends PluginSettingTab {
             textArea.onChange(async (value) => {
                 this.plugin.settings.skills[index].instructions = value;
                 await this.plugin.saveSettings();
+                this.plugin.skillStore.scheduleWrite(skill);
             });
 
+            if (skill.resources && skill.resources.length > 0) {
+                skillDetails.createEl('p', {
+                    cls: 'prompt-section-desc',
+                    text: `Bundled files: ${skill.resources.join(', ')}. Text files mentioned in the instructions are sent with the skill.`
+                });
+            }
+
             const skillActionContainer = skillDetails.createDiv({ cls: 'command-action-container' });
             
             const cancelBtn = skillActionContainer.createEl('button', { 
@@ -670,10 +1351,15 @@ class AITerminalSettingTab extends PluginSettingTab {
             });
             saveBtn.addEventListener('click', async () => {
                 await this.plugin.saveSettings();
-                await this.plugin.saveSkillFile(skill);
+                try {
+                    await this.plugin.skillStore.write(skill);
+                } catch (e: any) {
+                    new Notice(`Could not save skill: ${e.message}`);
+                    return;
+                }
                 skillDetails.addClass('hidden');
                 chevron.removeClass('expanded');
-                new Notice(`Skill "${skill.name}" saved to .obsidian/skills/`);
+                new Notice(`Skill "${skill.name}" saved to ${this.plugin.skillStore.dir}/${skill.folder}/`);
             });
         });
 
@@ -691,8 +1377,86 @@ class AITerminalSettingTab extends PluginSettingTab {
                     };
                     this.plugin.settings.skills.push(newSkill);
                     await this.plugin.saveSettings();
-                    await this.plugin.saveSkillFile(newSkill);
+                    await this.plugin.skillStore.write(newSkill);
                     this.display();
                 }));
     }
+
+    // API keys are masked, with a reveal toggle and a choice of where they are stored
+    private renderKeyField(containerEl: HTMLElement, provider: AIProvider, field: ProviderSettingField) {
+        const keys = this.plugin.keys;
+        const storage = keys.getStorage(provider.id);
+        const setting = new Setting(containerEl).setName(field.name);
+
+        if (storage === 'env') {
+            setting
+                .setDesc(KeyStore.canUseEnv()
+                    ? 'Name of the environment variable holding the key. Restart Obsidian after changing the variable.'
+                    : 'Environment variables are only available in the desktop app.')
+                .addText(text => text
+                    .setPlaceholder('ANTHROPIC_API_KEY')
+                    .setValue(keys.getEnvVar(provider.id))
+                    .onChange(async (value) => {
+                        keys.setEnvVar(provider.id, value);
+                        await this.plugin.saveSettings();
+                    }));
+        } else {
+            setting
+                .setDesc(storage === 'device' ? `${field.desc}. Stored on this device only and not synced.` : field.desc)
+                .addText(text => {
+                    text.setPlaceholder(field.placeholder || '')
+                        .setValue(field.getValue())
+                        .onChange(async (value) => {
+                            field.setValue(value);
+                            await this.plugin.saveSettings();
+                        });
+                    text.inputEl.type = 'password';
+                    text.inputEl.autocomplete = 'off';
+                    setting.addExtraButton(button => button
+                        .setIcon('eye')
+                        .setTooltip('Show key')
+                        .onClick(() => {
+                            const hidden = text.inputEl.type === 'password';
+                            text.inputEl.type = hidden ? 'text' : 'password';
+                            button.setIcon(hidden ? 'eye-off' : 'eye').setTooltip(hidden ? 'Hide key' : 'Show key');
+                        }));
+                });
+        }
+
+        setting.addDropdown(dropdown => {
+            (Object.keys(KEY_STORAGE_LABELS) as KeyStorage[]).forEach(option => dropdown.addOption(option, KEY_STORAGE_LABELS[option]));
+            dropdown
+                .setValue(storage)
+                .onChange(async (value) => {
+                    try {
+                        await keys.setStorage(provider.id, value as KeyStorage);
+                    } catch (e: any) {
+                        new Notice(`Could not move the ${provider.name} key: ${e.message}`);
+                    }
+                    this.display();
+                });
+        });
+    }
+
+    // Lists the provider's models: a free request that fails with the provider's own auth error
+    private renderConnectionTest(containerEl: HTMLElement, provider: AIProvider) {
+        const setting = new Setting(containerEl)
+            .setName('Connection')
+            .setDesc('Check the settings above with a request to the model list');
+        setting.addButton(button => button
+            .setButtonText('Test')
+            .onClick(async () => {
+                button.setDisabled(true).setButtonText('Testing...');
+                setting.descEl.removeClass('key-test-ok', 'key-test-error');
+                try {
+                    const models = await provider.listModels!();
+                    setting.setDesc(`✓ Connected. ${models.length} models available.`);
+                    setting.descEl.addClass('key-test-ok');
+                } catch (e: any) {
+                    setting.setDesc(`✗ ${e.message}`);
+                    setting.descEl.addClass('key-test-error');
+                }
+                button.setDisabled(false).setButtonText('Test');
+            }));
+    }
 }
@@ -1,57 +1,578 @@
-import { requestUrl } from "obsidian";
+import { requestUrl, Platform, RequestUrlResponse } from "obsidian";
+import { ModelInfo } from "../main";
+
+export type MediaKind = 'image' | 'pdf';
+
+export interface MediaPart {
+    kind: MediaKind;
+    mimeType: string;
+    data: string; // Base64
+    name: string;
+}
+
+// A function the model may call in agent mode; parameters is a JSON schema
+export interface ToolSpec {
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+}
+
+export interface ToolCall {
+    id: string;
+    name: string;
+    args: Record<string, any>;
+}
+
+export interface ToolResult {
+    id: string;
+    name: string;
+    content: string;
+}
+
+// One model response in agent mode: text and/or the tools it wants to run
+export interface ToolTurn {
+    text: string;
+    toolCalls: ToolCall[];
+    usage?: TokenUsage;
+}
+
+// Token counts reported by the provider for one response
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface AIMessage {
+    role: 'user' | 'assistant';
+    content: string;
+    media?: MediaPart[]; // Images and PDFs sent inline with this turn
+    toolCalls?: ToolCall[]; // Assistant turns that requested tools
+    toolResults?: ToolResult[]; // User turns answering those requests
+}
+
+export type StreamHandler = (delta: string) => void;
+export type UsageHandler = (usage: TokenUsage) => void;
+
+// Rate limited, and overloaded (Anthropic 529, Gemini 503)
+const RETRYABLE_STATUS = [429, 503, 529];
+
+// A failed provider response; status and Retry-After decide whether it is retried
+export class AIRequestError extends Error {
+    status: number;
+    retryAfterMs?: number;
+
+    constructor(label: string, status: number, detail: string, retryAfter?: string | null) {
+        super(detail ? `${label} Error ${status}: ${detail}` : `${label} Error: ${status}`);
+        this.name = 'AIRequestError';
+        this.status = status;
+        this.retryAfterMs = AIRequestError.parseRetryAfter(retryAfter);
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_STATUS.indexOf(this.status) !== -1;
+    }
+
+    // Retry-After is either delay seconds or an HTTP date
+    static parseRetryAfter(value?: string | null): number | undefined {
+        if (!value) return undefined;
+        const seconds = Number(value);
+        if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+        const date = Date.parse(value);
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+
+    static fromResponse(label: string, resp: RequestUrlResponse): AIRequestError {
+        const headers = resp.headers || {};
+        const retryAfter = Object.keys(headers).find(h => h.toLowerCase() === 'retry-after');
+        return new AIRequestError(label, resp.status, resp.text, retryAfter ? headers[retryAfter] : null);
+    }
+}
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+// Input types of discovered models by family, first match wins; anything else is text-only
+const MODEL_MODALITIES: [RegExp, MediaKind[]][] = [
+    [/(embed|tts|audio|realtime|transcribe|aqa)/, []],
+    [/^gemini-/, ['image', 'pdf']],
+    [/^claude-3-(opus|sonnet|haiku)-/, ['image']],
+    [/^claude-/, ['image', 'pdf']],
+    [/^gpt-4-(turbo|vision)/, ['image']],
+    [/^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1(?!-mini|-preview)|o3(?!-mini)|o4)/, ['image', 'pdf']]
+];
 
 export class AIService {
 
-    static async callGoogle(apiKey: string, model: string, systemPrompt: string, userPrompt: string): Promise<string> {
+    // Streaming needs fetch with a readable body; mobile only gets requestUrl
+    static canStream(): boolean {
+        return !Platform.isMobile && typeof fetch === 'function' && typeof ReadableStream !== 'undefined';
+    }
+
+    static getModalities(modelId: string): MediaKind[] {
+        const family = MODEL_MODALITIES.find(([pattern]) => pattern.test(modelId));
+        return family ? family[1] : [];
+    }
+
+    static bearer(apiKey: string): Record<string, string> {
+        return apiKey ? { "Authorization": `Bearer ${apiKey}` } : {};
+    }
+
+    // Callers may pass richer tool objects; APIs reject unknown fields
+    private static toolSpec(tool: ToolSpec): ToolSpec {
+        return { name: tool.name, description: tool.description, parameters: tool.parameters };
+    }
+
+    private static chatCompletionsUrl(baseUrl: string): string {
+        return `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    }
+
+    // Usage parsers for complete responses and stream events; null when absent.
+    // Thinking tokens are billed as output.
+    static googleUsage(data: any): TokenUsage | null {
+        const meta = data?.usageMetadata;
+        if (!meta) return null;
+        return {
+            inputTokens: meta.promptTokenCount || 0,
+            outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0)
+        };
+    }
+
+    static openAIUsage(data: any): TokenUsage | null {
+        const usage = data?.usage;
+        if (!usage) return null;
+        return { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 };
+    }
+
+    // Streams report input tokens in message_start and output tokens in message_delta
+    static claudeUsage(data: any): Partial<TokenUsage> | null {
+        const usage = data?.usage || data?.message?.usage;
+        if (!usage) return null;
+        const partial: Partial<TokenUsage> = {};
+        if (usage.input_tokens !== undefined) {
+            partial.inputTokens = usage.input_tokens + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
+        }
+        if (usage.output_tokens !== undefined) partial.outputTokens = usage.output_tokens;
+        return partial;
+    }
+
+    private static report(onUsage: UsageHandler | undefined, usage: Partial<TokenUsage> | null) {
+        if (!onUsage || !usage) return;
+        onUsage({ inputTokens: usage.inputTokens || 0, outputTokens: usage.outputTokens || 0 });
+    }
+
+    private static googleBody(systemPrompt: string, messages: AIMessage[]) {
+        return {
+            systemInstruction: { parts: [{ text: systemPrompt }] },
+            contents: messages.map(m => ({
+                role: m.role === 'assistant' ? "model" : "user",
+                parts: [
+                    ...(m.media || []).map(part => ({ inlineData: { mimeType: part.mimeType, data: part.data } })),
+                    ...(m.content || !(m.toolCalls || m.toolResults) ? [{ text: m.content }] : []),
+                    ...(m.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.args } })),
+                    ...(m.toolResults || []).map(result => ({ functionResponse: { name: result.name, response: { content: result.content } } }))
+                ]
+            }))
+        };
+    }
+
+    private static openAIContent(m: AIMessage) {
+        if (!m.media || m.media.length === 0) return m.content;
+        return [
+            { type: "text", text: m.content },
+            ...m.media.map(part => part.kind === 'image'
+                ? { type: "image_url", image_url: { url: `data:${part.mimeType};base64,${part.data}` } }
+                : { type: "file", file: { filename: part.name, file_data: `data:${part.mimeType};base64,${part.data}` } })
+        ];
+    }
+
+    // Tool calls ride on the assistant message; each result is a separate "tool" message
+    private static openAIMessages(m: AIMessage): object[] {
+        if (m.toolCalls && m.toolCalls.length > 0) {
+            return [{
+                role: "assistant",
+                content: m.content || null,
+                tool_calls: m.toolCalls.map(call => ({
+                    id: call.id,
+                    type: "function",
+                    function: { name: call.name, arguments: JSON.stringify(call.args) }
+                }))
+            }];
+        }
+        if (m.toolResults && m.toolResults.length > 0) {
+            const results: object[] = m.toolResults.map(result => ({ role: "tool", tool_call_id: result.id, content: result.content }));
+            return m.content ? [...results, { role: "user", content: m.content }] : results;
+        }
+        return [{ role: m.role, content: this.openAIContent(m) }];
+    }
+
+    private static openAIBody(model: string, systemPrompt: string, messages: AIMessage[]) {
+        const converted: object[] = [];
+        messages.forEach(m => converted.push(...this.openAIMessages(m)));
+        return {
+            model: model,
+            messages: [
+                { role: "system", content: systemPrompt },
+                ...converted
+            ]
+        };
+    }
+
+    private static claudeContent(m: AIMessage) {
+        const hasMedia = m.media && m.media.length > 0;
+        if (!hasMedia && !m.toolCalls && !m.toolResults) return m.content;
+        return [
+            ...(m.toolResults || []).map(result => ({ type: "tool_result", tool_use_id: result.id, content: result.content })),
+            ...(m.media || []).map(part => ({
+                type: part.kind === 'image' ? "image" : "document",
+                source: { type: "base64", media_type: part.mimeType, data: part.data }
+            })),
+            ...(m.content ? [{ type: "text", text: m.content }] : []),
+            ...(m.toolCalls || []).map(call => ({ type: "tool_use", id: call.id, name: call.name, input: call.args }))
+        ];
+    }
+
+    private static claudeBody(model: string, systemPrompt: string, messages: AIMessage[]) {
+        return {
+            model: model,
+            system: systemPrompt,
+            messages: messages.map(m => ({ role: m.role, content: this.claudeContent(m) })),
+            max_tokens: 4096
+        };
+    }
+
+    static async callGoogle(apiKey: string, model: string, systemPrompt: string, messages: AIMessage[], onUsage?: UsageHandler): Promise<string> {
         if (!apiKey) throw new Error("Google API Key is missing");
         const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`;
-        const body = {
-            contents: [{ role: "user", parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }] }]
-        };
         const resp = await requestUrl({
             url: url,
             method: "POST",
             headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey },
-            body: JSON.stringify(body)
+            body: JSON.stringify(this.googleBody(systemPrompt, messages)),
+            throw: false
         });
-        if (resp.status !== 200) throw new Error(`Gemini Error ${resp.status}: ${resp.text}`);
+        if (resp.status !== 200) throw AIRequestError.fromResponse("Gemini", resp);
         if (!resp.json.candidates || !resp.json.candidates[0].content) throw new Error("AI returned no content");
+        this.report(onUsage, this.googleUsage(resp.json));
         return resp.json.candidates[0].content.parts[0].text;
     }
 
-    static async callOpenAI(apiKey: string, model: string, systemPrompt: string, userPrompt: string): Promise<string> {
+    static async callOpenAI(apiKey: string, model: string, systemPrompt: string, messages: AIMessage[], onUsage?: UsageHandler): Promise<string> {
         if (!apiKey) throw new Error("OpenAI API Key is missing");
-        const url = "https://api.openai.com/v1/chat/completions";
-        const body = {
-            model: model,
-            messages: [{ role: "system", content: systemPrompt }, { role: "user", content: userPrompt }]
-        };
+        return this.callOpenAICompatible(OPENAI_BASE_URL, this.bearer(apiKey), "OpenAI", model, systemPrompt, messages, onUsage);
+    }
+
+    // Any server speaking the OpenAI chat completions protocol (Ollama, LM Studio, llama.cpp, ...)
+    static async callOpenAICompatible(baseUrl: string, headers: Record<string, string>, label: string, model: string, systemPrompt: string, messages: AIMessage[], onUsage?: UsageHandler): Promise<string> {
+        if (!baseUrl) throw new Error(`${label} base URL is missing`);
         const resp = await requestUrl({
-            url: url,
+            url: this.chatCompletionsUrl(baseUrl),
             method: "POST",
-            headers: { "Content-Type": "application/json", "Authorization": `Bearer ${apiKey}` },
-            body: JSON.stringify(body)
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(this.openAIBody(model, systemPrompt, messages)),
+            throw: false
         });
-        if (resp.status >= 400) throw new Error(`OpenAI Error: ${resp.status}`);
+        if (resp.status >= 400) throw AIRequestError.fromResponse(label, resp);
+        this.report(onUsage, this.openAIUsage(resp.json));
         return resp.json.choices[0].message.content;
     }
 
-    static async callClaude(apiKey: string, model: string, systemPrompt: string, userPrompt: string): Promise<string> {
+    static async callClaude(apiKey: string, model: string, systemPrompt: string, messages: AIMessage[], onUsage?: UsageHandler): Promise<string> {
         if (!apiKey) throw new Error("Anthropic API Key is missing");
         const url = "https://api.anthropic.com/v1/messages";
-        const body = {
-            model: model,
-            system: systemPrompt,
-            messages: [{ role: "user", content: userPrompt }],
-            max_tokens: 4096
-        };
         const resp = await requestUrl({
             url: url,
             method: "POST",
             headers: { "Content-Type": "application/json", "x-api-key": apiKey, "anthropic-version": "2023-06-01" },
-            body: JSON.stringify(body)
+            body: JSON.stringify(this.claudeBody(model, systemPrompt, messages)),
+            throw: false
         });
-        if (resp.status >= 400) throw new Error(`Claude Error: ${resp.status}`);
+        if (resp.status >= 400) throw AIRequestError.fromResponse("Claude", resp);
+        this.report(onUsage, this.claudeUsage(resp.json));
         return resp.json.content[0].text;
     }
+
+    static async callGoogleTools(apiKey: string, model: string, systemPrompt: string, messages: AIMessage[], tools: ToolSpec[]): Promise<ToolTurn> {
+        if (!apiKey) throw new Error("Google API Key is missing");
+        const resp = await requestUrl({
+            url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`,
+            method: "POST",
+            headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey },
+            body: JSON.stringify({ ...this.googleBody(systemPrompt, messages), tools: [{ functionDeclarations: tools.map(tool => this.toolSpec(tool)) }] }),
+            throw: false
+        });
+        if (resp.status !== 200) throw AIRequestError.fromResponse("Gemini", resp);
+        const parts: any[] = resp.json.candidates?.[0]?.content?.parts || [];
+        return {
+            text: parts.map(p => p.text || '').join(''),
+            usage: this.googleUsage(resp.json) || undefined,
+            // Gemini has no call ids; results are matched by name and order
+            toolCalls: parts.filter(p => p.functionCall).map((p, i) => ({
+                id: `${p.functionCall.name}-${i}`,
+                name: p.functionCall.name,
+                args: p.functionCall.args || {}
+            }))
+        };
+    }
+
+    static async callOpenAITools(apiKey: string, model: string, systemPrompt: string, messages: AIMessage[], tools: ToolSpec[]): Promise<ToolTurn> {
+        if (!apiKey) throw new Error("OpenAI API Key is missing");
+        return this.callOpenAICompatibleTools(OPENAI_BASE_URL, this.bearer(apiKey), "OpenAI", model, systemPrompt, messages, tools);
+    }
+
+    static async callOpenAICompatibleTools(baseUrl: string, headers: Record<string, string>, label: string, model: string, systemPrompt: string, messages: AIMessage[], tools: ToolSpec[]): Promise<ToolTurn> {
+        if (!baseUrl) throw new Error(`${label} base URL is missing`);
+        const resp = await requestUrl({
+            url: this.chatCompletionsUrl(baseUrl),
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify({
+                ...this.openAIBody(model, systemPrompt, messages),
+                tools: tools.map(tool => ({ type: "function", function: this.toolSpec(tool) }))
+            }),
+            throw: false
+        });
+        if (resp.status >= 400) throw AIRequestError.fromResponse(label, resp);
+        const message = resp.json.choices[0].message;
+        return {
+            text: message.content || '',
+            usage: this.openAIUsage(resp.json) || undefined,
+            toolCalls: (message.tool_calls || []).map((call: any) => {
+                let args = {};
+                try {
+                    args = JSON.parse(call.function.arguments || '{}');
+                } catch (e) {
+                    console.warn("AI Terminal: unparseable tool arguments", call.function.arguments);
+                }
+                return { id: call.id, name: call.function.name, args };
+            })
+        };
+    }
+
+    static async callClaudeTools(apiKey: string, model: string, systemPrompt: string, messages: AIMessage[], tools: ToolSpec[]): Promise<ToolTurn> {
+        if (!apiKey) throw new Error("Anthropic API Key is missing");
+        const resp = await requestUrl({
+            url: "https://api.anthropic.com/v1/messages",
+            method: "POST",
+            headers: { "Content-Type": "application/json", "x-api-key": apiKey, "anthropic-version": "2023-06-01" },
+            body: JSON.stringify({
+                ...this.claudeBody(model, systemPrompt, messages),
+                tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+            }),
+            throw: false
+        });
+        if (resp.status >= 400) throw AIRequestError.fromResponse("Claude", resp);
+        const blocks: any[] = resp.json.content || [];
+        const usage = this.claudeUsage(resp.json);
+        return {
+            text: blocks.filter(b => b.type === 'text').map(b => b.text).join(''),
+            usage: usage ? { inputTokens: usage.inputTokens || 0, outputTokens: usage.outputTokens || 0 } : undefined,
+            toolCalls: blocks.filter(b => b.type === 'tool_use').map(b => ({ id: b.id, name: b.name, args: b.input || {} }))
+        };
+    }
+
+    static async listGoogleModels(apiKey: string): Promise<ModelInfo[]> {
+        if (!apiKey) throw new Error("Google API Key is missing");
+        const resp = await requestUrl({
+            url: "https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000",
+            method: "GET",
+            headers: { "x-goog-api-key": apiKey },
+            throw: false
+        });
+        if (resp.status !== 200) throw AIRequestError.fromResponse("Gemini", resp);
+        return (resp.json.models || [])
+            .filter((m: any) => (m.supportedGenerationMethods || []).includes("generateContent"))
+            .map((m: any) => ({
+                id: m.name.replace(/^models\//, ''),
+                name: m.displayName || m.name,
+                contextWindow: m.inputTokenLimit || 1048576,
+                modalities: this.getModalities(m.name.replace(/^models\//, ''))
+            }));
+    }
+
+    static async listOpenAIModels(apiKey: string): Promise<ModelInfo[]> {
+        if (!apiKey) throw new Error("OpenAI API Key is missing");
+        const models = await this.listOpenAICompatibleModels(OPENAI_BASE_URL, this.bearer(apiKey), "OpenAI");
+        // The endpoint also lists embedding, audio and image models
+        return models
+            .filter(m => /^(gpt-|o\d|chatgpt-)/.test(m.id) && !/(audio|realtime|tts|transcribe|image|search)/.test(m.id))
+            .map(m => ({ ...m, modalities: this.getModalities(m.id) }));
+    }
+
+    static async listOpenAICompatibleModels(baseUrl: string, headers: Record<string, string>, label: string, contextWindow: number = 128000): Promise<ModelInfo[]> {
+        if (!baseUrl) throw new Error(`${label} base URL is missing`);
+        const resp = await requestUrl({
+            url: `${baseUrl.replace(/\/+$/, '')}/models`,
+            method: "GET",
+            headers: headers,
+            throw: false
+        });
+        if (resp.status >= 400) throw AIRequestError.fromResponse(label, resp);
+        return (resp.json.data || [])
+            .map((m: any) => ({ id: m.id, name: m.id, contextWindow }))
+            .sort((a: ModelInfo, b: ModelInfo) => a.id.localeCompare(b.id));
+    }
+
+    static async listClaudeModels(apiKey: string): Promise<ModelInfo[]> {
+        if (!apiKey) throw new Error("Anthropic API Key is missing");
+        const resp = await requestUrl({
+            url: "https://api.anthropic.com/v1/models?limit=1000",
+            method: "GET",
+            headers: { "x-api-key": apiKey, "anthropic-version": "2023-06-01" },
+            throw: false
+        });
+        if (resp.status >= 400) throw AIRequestError.fromResponse("Claude", resp);
+        return (resp.json.data || []).map((m: any) => ({
+            id: m.id,
+            name: m.display_name || m.id,
+            contextWindow: 200000,
+            modalities: this.getModalities(m.id)
+        }));
+    }
+
+    static async streamGoogle(apiKey: string, model: string, systemPrompt: string, messages: AIMessage[], onDelta: StreamHandler, signal?: AbortSignal, onUsage?: UsageHandler): Promise<string> {
+        if (!apiKey) throw new Error("Google API Key is missing");
+        return this.streamRequest(
+            `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse`,
+            { "Content-Type": "application/json", "x-goog-api-key": apiKey },
+            this.googleBody(systemPrompt, messages),
+            (data) => {
+                const parts = data.candidates?.[0]?.content?.parts || [];
+                return parts.map((p: any) => p.text || '').join('');
+            },
+            (data) => this.googleUsage(data),
+            "Gemini",
+            () => this.callGoogle(apiKey, model, systemPrompt, messages, onUsage),
+            onDelta,
+            signal,
+            onUsage
+        );
+    }
+
+    static async streamOpenAI(apiKey: string, model: string, systemPrompt: string, messages: AIMessage[], onDelta: StreamHandler, signal?: AbortSignal, onUsage?: UsageHandler): Promise<string> {
+        if (!apiKey) throw new Error("OpenAI API Key is missing");
+        return this.streamOpenAICompatible(OPENAI_BASE_URL, this.bearer(apiKey), "OpenAI", model, systemPrompt, messages, onDelta, signal, onUsage);
+    }
+
+    static async streamOpenAICompatible(baseUrl: string, headers: Record<string, string>, label: string, model: string, systemPrompt: string, messages: AIMessage[], onDelta: StreamHandler, signal?: AbortSignal, onUsage?: UsageHandler): Promise<string> {
+        if (!baseUrl) throw new Error(`${label} base URL is missing`);
+        const body: Record<string, any> = { ...this.openAIBody(model, systemPrompt, messages), stream: true };
+        // Only OpenAI is known to accept stream_options; other servers may reject the request
+        if (baseUrl === OPENAI_BASE_URL) body.stream_options = { include_usage: true };
+        return this.streamRequest(
+            this.chatCompletionsUrl(baseUrl),
+            { "Content-Type": "application/json", ...headers },
+            body,
+            (data) => data.choices?.[0]?.delta?.content || '',
+            (data) => this.openAIUsage(data),
+            label,
+            () => this.callOpenAICompatible(baseUrl, headers, label, model, systemPrompt, messages, onUsage),
+            onDelta,
+            signal,
+            onUsage
+        );
+    }
+
+    static async streamClaude(apiKey: string, model: string, systemPrompt: string, messages: AIMessage[], onDelta: StreamHandler, signal?: AbortSignal, onUsage?: UsageHandler): Promise<string> {
+        if (!apiKey) throw new Error("Anthropic API Key is missing");
+        return this.streamRequest(
+            "https://api.anthropic.com/v1/messages",
+            {
+                "Content-Type": "application/json",
+                "x-api-key": apiKey,
+                "anthropic-version": "2023-06-01",
+                "anthropic-dangerous-direct-browser-access": "true"
+            },
+            { ...this.claudeBody(model, systemPrompt, messages), stream: true },
+            (data) => {
+                if (data.type === 'error') {
+                    throw new AIRequestError("Claude", data.error?.type === 'overloaded_error' ? 529 : 500, data.error?.message || 'stream error');
+                }
+                return data.type === 'content_block_delta' ? (data.delta?.text || '') : '';
+            },
+            (data) => this.claudeUsage(data),
+            "Claude",
+            () => this.callClaude(apiKey, model, systemPrompt, messages, onUsage),
+            onDelta,
+            signal,
+            onUsage
+        );
+    }
+
+    // POST a request and read the response as server-sent events. Falls back to the
+    // non-streaming call when streaming is unavailable or the connection cannot be
+    // opened (e.g. blocked by CORS), emitting the whole answer as a single delta.
+    static async streamRequest(
+        url: string,
+        headers: Record<string, string>,
+        body: object,
+        extractDelta: (data: any) => string,
+        extractUsage: (data: any) => Partial<TokenUsage> | null,
+        label: string,
+        fallback: () => Promise<string>,
+        onDelta: StreamHandler,
+        signal?: AbortSignal,
+        onUsage?: UsageHandler
+    ): Promise<string> {
+        const runFallback = async () => {
+            const text = await fallback();
+            onDelta(text);
+            return text;
+        };
+
+        if (!this.canStream()) return runFallback();
+
+        let resp: Response;
+        try {
+            resp = await fetch(url, { method: "POST", headers, body: JSON.stringify(body), signal });
+        } catch (e) {
+            if (signal?.aborted) throw e;
+            console.warn(`AI Terminal: ${label} streaming unavailable, falling back`, e);
+            return runFallback();
+        }
+        if (!resp.ok) throw new AIRequestError(label, resp.status, await resp.text(), resp.headers.get('retry-after'));
+        if (!resp.body) return runFallback();
+
+        const reader = resp.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let result = '';
+        let usage: Partial<TokenUsage> | null = null;
+
+        const handleEvent = (rawEvent: string) => {
+            const data = rawEvent
+                .split('\n')
+                .filter(line => line.startsWith('data:'))
+                .map(line => line.slice(5).trim())
+                .join('\n');
+            if (!data || data === '[DONE]') return;
+            let parsed: any;
+            try {
+                parsed = JSON.parse(data);
+            } catch (e) {
+                return;
+            }
+            const eventUsage = extractUsage(parsed);
+            if (eventUsage) usage = { ...usage, ...eventUsage };
+            const delta = extractDelta(parsed);
+            if (delta) {
+                result += delta;
+                onDelta(delta);
+            }
+        };
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+                handleEvent(buffer.slice(0, boundary));
+                buffer = buffer.slice(boundary + 2);
+                boundary = buffer.indexOf('\n\n');
+            }
+        }
+        if (buffer.trim()) handleEvent(buffer);
+
+        this.report(onUsage, usage);
+        return result;
+    }
 }
@@ -0,0 +1,161 @@
+import { App, Modal, Setting } from "obsidian";
+import { AIMessage, ToolResult, UsageHandler } from "./AIService";
+import { AIProvider } from "./providers/ProviderRegistry";
+import { RequestCancelledError, RequestRunner } from "./RequestRunner";
+import { VaultTool } from "./VaultTools";
+
+export type AgentStepStatus = 'running' | 'done' | 'declined' | 'error';
+
+// One tool call as shown in the chat
+export interface AgentStep {
+    tool: string;
+    args: Record<string, any>;
+    result: string; // Shortened for display; the model received the full result
+    status: AgentStepStatus;
+}
+
+export interface AgentRequest {
+    provider: AIProvider;
+    model: string;
+    systemPrompt: string;
+    messages: AIMessage[];
+    maxSteps: number;
+    runner: RequestRunner; // Timeout, retries and cancellation for each model call
+    onUsage?: UsageHandler; // Called once per model call
+    onStep: (step: AgentStep, steps: AgentStep[]) => void; // When a step starts and when it finishes
+}
+
+export interface AgentResult {
+    text: string;
+    steps: AgentStep[];
+}
+
+export const AGENT_INSTRUCTIONS = `
+
+Agent mode: you can call tools to search, read and list the notes in the vault and to create or append to notes. Look things up instead of guessing, and answer once you have what you need. The user confirms every change to the vault and may decline it.`;
+
+const MAX_DISPLAYED_RESULT = 2000;
+
+// Runs the tool-calling loop: the model asks for tools, their results are sent back,
+// until it answers in plain text or the step limit is reached
+export class Agent {
+    private app: App;
+    private tools: VaultTool[];
+
+    constructor(app: App, tools: VaultTool[]) {
+        this.app = app;
+        this.tools = tools;
+    }
+
+    async run(request: AgentRequest): Promise<AgentResult> {
+        const { provider, model, systemPrompt, maxSteps, runner, onStep, onUsage } = request;
+        if (!provider.completeWithTools) throw new Error(`${provider.name} does not support agent mode`);
+
+        const messages = [...request.messages];
+        const steps: AgentStep[] = [];
+        let limitReached = false;
+
+        while (true) {
+            const turn = await runner.run(() => provider.completeWithTools!({ model, systemPrompt, messages, tools: this.tools }));
+            if (turn.usage && onUsage) onUsage(turn.usage);
+            if (turn.toolCalls.length === 0) return { text: turn.text, steps };
+            if (limitReached) {
+                return { text: `${turn.text}\n\n_Stopped after ${maxSteps} tool steps._`.trim(), steps };
+            }
+
+            const results: ToolResult[] = [];
+            for (const call of turn.toolCalls) {
+                // Calls past the limit are answered without running so the model can wrap up
+                if (steps.length >= maxSteps) {
+                    limitReached = true;
+                    results.push({ id: call.id, name: call.name, content: "Not run: the tool step limit for this request was reached. Answer with what you have." });
+                    continue;
+                }
+                const step: AgentStep = { tool: call.name, args: call.args, result: '', status: 'running' };
+                steps.push(step);
+                onStep(step, steps);
+                const content = await this.runTool(call.name, call.args, step);
+                // Stop pressed while a tool ran or waited for confirmation ends the loop here
+                if (runner.cancelled) throw new RequestCancelledError();
+                step.result = content.length > MAX_DISPLAYED_RESULT ? `${content.substring(0, MAX_DISPLAYED_RESULT)}…` : content;
+                onStep(step, steps);
+                results.push({ id: call.id, name: call.name, content });
+            }
+
+            messages.push({ role: 'assistant', content: turn.text, toolCalls: turn.toolCalls });
+            messages.push({ role: 'user', content: '', toolResults: results });
+        }
+    }
+
+    private async runTool(name: string, args: Record<string, any>, step: AgentStep): Promise<string> {
+        const tool = this.tools.find(t => t.name === name);
+        if (!tool) {
+            step.status = 'error';
+            return `Error: unknown tool "${name}"`;
+        }
+        if (tool.write && !(await ToolConfirmModal.confirm(this.app, tool, args))) {
+            step.status = 'declined';
+            return "The user declined this action.";
+        }
+        try {
+            const result = await tool.run(args);
+            step.status = 'done';
+            return result;
+        } catch (e: any) {
+            step.status = 'error';
+            return `Error: ${e.message}`;
+        }
+    }
+}
+
+// Asks before a tool changes the vault; closing the modal declines
+export class ToolConfirmModal extends Modal {
+    private tool: VaultTool;
+    private args: Record<string, any>;
+    private resolve: (allowed: boolean) => void;
+    private allowed = false;
+
+    constructor(app: App, tool: VaultTool, args: Record<string, any>, resolve: (allowed: boolean) => void) {
+        super(app);
+        this.tool = tool;
+        this.args = args;
+        this.resolve = resolve;
+    }
+
+    static confirm(app: App, tool: VaultTool, args: Record<string, any>): Promise<boolean> {
+        return new Promise(resolve => new ToolConfirmModal(app, tool, args, resolve).open());
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h3", { text: `Allow ${this.tool.name}?` });
+        contentEl.createEl("p", { text: this.tool.description, cls: "setting-item-description" });
+
+        Object.keys(this.args).forEach(key => {
+            const value = this.args[key];
+            contentEl.createDiv({ text: key, cls: "tool-confirm-label" });
+            contentEl.createEl("pre", {
+                text: typeof value === 'string' ? value : JSON.stringify(value, null, 2),
+                cls: "tool-confirm-value"
+            });
+        });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Decline")
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText("Allow")
+                .setCta()
+                .onClick(() => {
+                    this.allowed = true;
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        this.resolve(this.allowed);
+    }
+}
@@ -0,0 +1,139 @@
+import { PROVIDER_MODELS } from "../main";
+
+export interface ContextSource {
+    name: string;
+    content: string;
+}
+
+export interface ContextNoteUsage {
+    name: string;
+    tokens: number; // Tokens actually included
+    originalTokens: number;
+    truncated: boolean;
+}
+
+export interface ContextResult {
+    text: string;
+    usedTokens: number;
+    budgetTokens: number;
+    notes: ContextNoteUsage[];
+}
+
+// Tokens held back for the model's answer
+const OUTPUT_RESERVE_TOKENS = 4096;
+const DEFAULT_CONTEXT_WINDOW = 128000;
+// Below this share of a note's size, an excerpt leads with the heading outline
+const OUTLINE_THRESHOLD = 0.25;
+
+export class ContextBuilder {
+
+    // Rough heuristic: ~4 characters per token for latin text, ~1 token per CJK/Hangul character
+    static estimateTokens(text: string): number {
+        if (!text) return 0;
+        const wide = (text.match(/[\u1100-\u11FF\u3040-\u30FF\u3130-\u318F\u3400-\u9FFF\uAC00-\uD7AF]/g) || []).length;
+        return wide + Math.ceil((text.length - wide) / 4);
+    }
+
+    static getContextWindow(modelId: string): number {
+        const providers = Object.keys(PROVIDER_MODELS) as (keyof typeof PROVIDER_MODELS)[];
+        for (const provider of providers) {
+            const model = PROVIDER_MODELS[provider].find(m => m.id === modelId);
+            if (model) return model.contextWindow;
+        }
+        if (modelId.startsWith('gemini')) return 1048576;
+        if (modelId.startsWith('claude')) return 200000;
+        return DEFAULT_CONTEXT_WINDOW;
+    }
+
+    // Tokens left for attached notes once the prompt, history and answer are accounted for
+    static getBudget(contextWindow: number, reservedText: string = ''): number {
+        const available = contextWindow - OUTPUT_RESERVE_TOKENS - this.estimateTokens(reservedText);
+        return Math.max(0, available);
+    }
+
+    // Fit notes into the budget. Notes smaller than their fair share are kept whole and
+    // the leftover is redistributed; the rest are cut down to excerpts of equal size.
+    static build(sources: ContextSource[], budgetTokens: number): ContextResult {
+        const entries = sources.map(source => ({
+            source,
+            header: `\n=== NOTE: ${source.name} ===\n`,
+            originalTokens: this.estimateTokens(source.content),
+            allocation: 0
+        }));
+
+        let remaining = budgetTokens;
+        const pending = [...entries].sort((a, b) => a.originalTokens - b.originalTokens);
+        while (pending.length > 0) {
+            const entry = pending[0];
+            const cost = entry.originalTokens + this.estimateTokens(entry.header);
+            const fairShare = Math.floor(remaining / pending.length);
+            if (cost <= fairShare) {
+                entry.allocation = entry.originalTokens;
+                remaining -= cost;
+                pending.shift();
+            } else {
+                // Every remaining note is larger than the fair share
+                pending.forEach(p => {
+                    p.allocation = Math.max(0, fairShare - this.estimateTokens(p.header));
+                });
+                break;
+            }
+        }
+
+        let text = "";
+        let usedTokens = 0;
+        const notes: ContextNoteUsage[] = [];
+        entries.forEach(entry => {
+            const truncated = entry.allocation < entry.originalTokens;
+            const body = truncated
+                ? this.excerpt(entry.source.content, entry.allocation, entry.originalTokens)
+                : entry.source.content;
+            const tokens = truncated ? this.estimateTokens(body) : entry.originalTokens;
+            if (truncated && !body) {
+                notes.push({ name: entry.source.name, tokens: 0, originalTokens: entry.originalTokens, truncated });
+                return;
+            }
+            text += `${entry.header}${body}\n`;
+            usedTokens += tokens + this.estimateTokens(entry.header);
+            notes.push({ name: entry.source.name, tokens, originalTokens: entry.originalTokens, truncated });
+        });
+
+        return { text, usedTokens, budgetTokens, notes };
+    }
+
+    // Head/tail excerpt of a note, prefixed with its heading outline when only a small
+    // fraction fits. The omission marker is only added when text was actually cut.
+    static excerpt(content: string, tokenBudget: number, totalTokens: number): string {
+        if (tokenBudget <= 0) return "";
+        const charsPerToken = content.length / Math.max(1, totalTokens);
+        let budgetChars = Math.floor(tokenBudget * charsPerToken);
+        let outline = "";
+
+        if (tokenBudget / totalTokens < OUTLINE_THRESHOLD) {
+            const headings = content.split('\n').filter(line => /^#{1,6}\s/.test(line));
+            if (headings.length > 0) {
+                outline = `[Outline]\n${headings.join('\n')}\n\n`;
+                if (outline.length > budgetChars / 2) {
+                    outline = outline.substring(0, Math.floor(budgetChars / 2)) + "\n...\n\n";
+                }
+                budgetChars -= outline.length;
+            }
+        }
+
+        const marker = "\n\n[... excerpt: middle of note omitted ...]\n\n";
+        budgetChars -= marker.length;
+        if (budgetChars <= 0) return outline.trim();
+
+        const headChars = Math.floor(budgetChars * 0.7);
+        const tailChars = budgetChars - headChars;
+        const head = content.substring(0, headChars);
+        const tail = tailChars > 0 ? content.substring(content.length - tailChars) : "";
+        return `${outline}${head}${marker}${tail}`;
+    }
+
+    static formatTokens(tokens: number): string {
+        if (tokens >= 1000000) return `${(tokens / 1000000).toFixed(1)}M`;
+        if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+        return `${tokens}`;
+    }
+}
@@ -0,0 +1,110 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import { EditHunk, NoteEdits } from "./NoteEdits";
+
+const CONTEXT_LINES = 2;
+
+// Per-file, per-hunk review of edits proposed in edit mode
+export class EditReviewModal extends Modal {
+    hunks: EditHunk[];
+    hashes: Record<string, string>;
+    accepted: Set<EditHunk>;
+    contents: Map<string, string>;
+    onApplied: () => void; // The note hashes were updated and should be saved
+
+    constructor(app: App, hunks: EditHunk[], hashes: Record<string, string>, contents: Map<string, string>, onApplied: () => void) {
+        super(app);
+        this.hunks = hunks;
+        this.hashes = hashes;
+        this.contents = contents;
+        this.onApplied = onApplied;
+        this.accepted = new Set(hunks.filter(h => h.status === 'ok'));
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("edit-review-modal");
+        contentEl.createEl("h3", { text: "Review proposed edits" });
+
+        const byFile = new Map<string, EditHunk[]>();
+        this.hunks.forEach(hunk => {
+            const key = hunk.file ? hunk.file.path : hunk.edit.path;
+            byFile.set(key, [...(byFile.get(key) || []), hunk]);
+        });
+
+        const listEl = contentEl.createDiv({ cls: "edit-review-list" });
+        byFile.forEach((hunks, path) => {
+            listEl.createEl("h4", { text: path, cls: "edit-review-file" });
+            hunks.forEach(hunk => this.renderHunk(listEl, hunk));
+        });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText("Apply selected")
+                .setCta()
+                .onClick(async () => {
+                    const accepted = this.hunks.filter(h => this.accepted.has(h));
+                    if (accepted.length === 0) {
+                        this.close();
+                        return;
+                    }
+                    try {
+                        const result = await NoteEdits.apply(this.app, accepted, this.hashes);
+                        this.onApplied();
+                        const refused = result.refused.length > 0
+                            ? `, refused ${result.refused.length} (${result.refused.map(h => h.reason).join('; ')})`
+                            : '';
+                        new Notice(`Applied ${result.applied} edits${refused}`);
+                    } catch (e: any) {
+                        new Notice(`Failed to apply edits: ${e.message}`);
+                    }
+                    this.close();
+                }));
+    }
+
+    renderHunk(containerEl: HTMLElement, hunk: EditHunk) {
+        const hunkEl = containerEl.createDiv({ cls: `edit-review-hunk ${hunk.status}` });
+        const headerEl = hunkEl.createDiv({ cls: "edit-review-hunk-header" });
+
+        const checkbox = headerEl.createEl("input", { type: "checkbox" });
+        checkbox.checked = this.accepted.has(hunk);
+        checkbox.disabled = hunk.status !== 'ok';
+        checkbox.addEventListener('change', () => {
+            if (checkbox.checked) this.accepted.add(hunk);
+            else this.accepted.delete(hunk);
+        });
+
+        headerEl.createEl("span", {
+            text: hunk.status === 'ok' ? (hunk.edit.find ? "Replace" : "Append") : `⚠ ${hunk.reason}`,
+            cls: "edit-review-status"
+        });
+
+        const diffEl = hunkEl.createEl("pre", { cls: "edit-review-diff" });
+        const content = hunk.file ? this.contents.get(hunk.file.path) : undefined;
+        const addLines = (lines: string[], prefix: string, cls: string) => {
+            lines.forEach(line => diffEl.createDiv({ text: `${prefix} ${line}`, cls }));
+        };
+
+        if (content !== undefined && hunk.offset >= 0) {
+            const before = content.substring(0, hunk.offset).split('\n');
+            before.pop(); // Partial line the hunk starts on
+            const after = content.substring(hunk.offset + hunk.edit.find.length).split('\n');
+            after.shift();
+            addLines(before.slice(-CONTEXT_LINES), ' ', "diff-context");
+            if (hunk.edit.find) addLines(hunk.edit.find.split('\n'), '-', "diff-removed");
+            addLines(hunk.edit.replace.split('\n'), '+', "diff-added");
+            addLines(after.slice(0, CONTEXT_LINES), ' ', "diff-context");
+        } else {
+            if (hunk.edit.find) addLines(hunk.edit.find.split('\n'), '-', "diff-removed");
+            addLines(hunk.edit.replace.split('\n'), '+', "diff-added");
+        }
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,249 @@
+import { App, Editor, EditorPosition, FuzzySuggestModal, Modal, Notice, Setting } from "obsidian";
+import AITerminalPlugin, { CustomCommand } from "../main";
+import { TemplateVariables } from "./TemplateVariables";
+import { RequestRunner } from "./RequestRunner";
+import { TerminalView, TERMINAL_VIEW_TYPE } from "./TerminalView";
+
+export type InsertMode = 'below' | 'replace' | 'cursor';
+
+export const INSERT_MODE_LABELS: Record<InsertMode, string> = {
+    below: "insert below selection",
+    replace: "replace selection",
+    cursor: "insert at cursor"
+};
+
+// Custom command picker
+export class CommandSuggester extends FuzzySuggestModal<CustomCommand> {
+    commands: CustomCommand[];
+    onChoose: (result: CustomCommand) => void;
+
+    constructor(app: App, commands: CustomCommand[], onChoose: (result: CustomCommand) => void) {
+        super(app);
+        this.commands = commands;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Run a custom command on the selection...");
+    }
+
+    getItems(): CustomCommand[] {
+        return this.commands;
+    }
+
+    getItemText(item: CustomCommand): string {
+        return `${item.command} ${item.name} (${item.modelId})`;
+    }
+
+    onChooseItem(item: CustomCommand, evt: MouseEvent | KeyboardEvent): void {
+        this.onChoose(item);
+    }
+}
+
+// Shows the original selection next to the AI result before text is replaced
+export class ReplacePreviewModal extends Modal {
+    original: string;
+    result: string;
+    onReplace: (text: string) => void;
+    onInsertBelow: (text: string) => void;
+
+    constructor(app: App, original: string, result: string, onReplace: (text: string) => void, onInsertBelow: (text: string) => void) {
+        super(app);
+        this.original = original;
+        this.result = result;
+        this.onReplace = onReplace;
+        this.onInsertBelow = onInsertBelow;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("replace-preview-modal");
+        contentEl.createEl("h3", { text: "Replace selection?" });
+
+        contentEl.createEl("div", { text: "Selection", cls: "replace-preview-label" });
+        contentEl.createEl("pre", { text: this.original, cls: "replace-preview-original" });
+
+        contentEl.createEl("div", { text: "AI result (editable)", cls: "replace-preview-label" });
+        const resultEl = contentEl.createEl("textarea", { cls: "replace-preview-result" });
+        resultEl.value = this.result;
+        resultEl.rows = 12;
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText("Insert below")
+                .onClick(() => {
+                    this.onInsertBelow(resultEl.value);
+                    this.close();
+                }))
+            .addButton(btn => btn
+                .setButtonText("Replace")
+                .setCta()
+                .onClick(() => {
+                    this.onReplace(resultEl.value);
+                    this.close();
+                }));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Runs custom commands outside the terminal panel: on the editor selection, or on the
+// active note when a command is triggered from the command palette or a hotkey
+export class EditorActions {
+    plugin: AITerminalPlugin;
+
+    constructor(plugin: AITerminalPlugin) {
+        this.plugin = plugin;
+    }
+
+    chooseAndRun(editor: Editor, mode: InsertMode) {
+        const commands = this.plugin.settings.customCommands;
+        if (commands.length === 0) {
+            new Notice("No custom commands configured");
+            return;
+        }
+        new CommandSuggester(this.plugin.app, commands, (cmd) => this.run(editor, cmd, mode)).open();
+    }
+
+    async run(editor: Editor, cmd: CustomCommand, mode: InsertMode) {
+        const selection = editor.getSelection();
+        if (!selection.trim()) {
+            new Notice("Select some text first");
+            return;
+        }
+        // Remember where the selection was; the user may keep typing while the model works
+        const from = editor.getCursor('from');
+        const to = editor.getCursor('to');
+
+        const result = await this.complete(cmd, selection, selection);
+        if (result === null) return;
+
+        if (mode === 'cursor') {
+            editor.replaceRange(result, editor.getCursor());
+            return;
+        }
+
+        if (editor.getRange(from, to) !== selection) {
+            new Notice("The selection changed while the AI was working; nothing was written");
+            return;
+        }
+
+        if (mode === 'below') {
+            this.insertBelow(editor, to, result);
+        } else {
+            // The note can still change while the preview is open
+            new ReplacePreviewModal(this.plugin.app, selection, result,
+                (text) => {
+                    if (editor.getRange(from, to) !== selection) {
+                        new Notice("The selection changed; nothing was replaced");
+                        return;
+                    }
+                    editor.replaceRange(text, from, to);
+                },
+                (text) => {
+                    if (editor.getRange(from, to) !== selection) {
+                        new Notice("The selection changed; nothing was inserted");
+                        return;
+                    }
+                    this.insertBelow(editor, to, text);
+                }
+            ).open();
+        }
+    }
+
+    // Runs the command without the terminal's attachments or history; null when it failed
+    async complete(cmd: CustomCommand, input: string, selection: string): Promise<string | null> {
+        const provider = this.plugin.providers.get(cmd.provider);
+        if (!provider) {
+            new Notice(`Provider "${cmd.provider}" is not available`);
+            return null;
+        }
+
+        const expanded = TemplateVariables.expand(this.plugin.app, cmd.promptTemplate, { input, selection });
+        if (expanded.errors.length > 0) {
+            new Notice(`Error in ${cmd.command} prompt: ${expanded.errors.join(', ')}`);
+            return null;
+        }
+
+        const budget = this.plugin.usage.checkBudget(cmd.provider);
+        if (budget) {
+            new Notice(budget.block ? `${budget.message}; ${cmd.name} was not run` : budget.message);
+            if (budget.block) return null;
+        }
+
+        const notice = new Notice(`Running ${cmd.name}...`, 0);
+        const runner = new RequestRunner({
+            timeoutSeconds: this.plugin.settings.requestTimeout,
+            maxRetries: this.plugin.settings.maxRetries,
+            onRetry: (retry, maxRetries) => notice.setMessage(`Running ${cmd.name}... retrying (${retry}/${maxRetries})`)
+        });
+        try {
+            return (await runner.run(() => provider.complete({
+                model: cmd.modelId,
+                systemPrompt: expanded.text + this.plugin.getSkillsPrompt(input, cmd.skillIds).prompt,
+                messages: [{ role: 'user', content: input }],
+                onUsage: usage => {
+                    this.plugin.usage.record(cmd.provider, cmd.modelId, usage)
+                        .catch(e => console.error("AI Terminal: could not record usage", e));
+                }
+            }))).trim();
+        } catch (e: any) {
+            new Notice(`${cmd.name} failed: ${e.message}`);
+            return null;
+        } finally {
+            notice.hide();
+        }
+    }
+
+    // Runs on the selection, or on the whole active note when nothing is selected,
+    // and sends the answer where the command's output setting says
+    async runCommand(cmd: CustomCommand) {
+        const { workspace } = this.plugin.app;
+        const editor = workspace.activeEditor?.editor;
+        const file = workspace.activeEditor?.file || workspace.getActiveFile();
+        const selection = editor ? editor.getSelection() : '';
+        const output = cmd.output || 'terminal';
+
+        if (output === 'terminal') {
+            await this.plugin.activateView();
+            const view = workspace.getLeavesOfType(TERMINAL_VIEW_TYPE)[0]?.view;
+            if (view instanceof TerminalView) await view.runCustomCommand(cmd, selection, file);
+            return;
+        }
+
+        if (output === 'cursor') {
+            if (!editor) {
+                new Notice("Open a note in the editor first");
+                return;
+            }
+            const input = selection || editor.getValue();
+            const result = await this.complete(cmd, input, selection);
+            if (result !== null) editor.replaceRange(result, editor.getCursor('to'));
+            return;
+        }
+
+        let input = selection;
+        if (!input && file && file.extension === 'md') input = await this.plugin.app.vault.cachedRead(file);
+        if (!input) {
+            new Notice("Open a note or select some text first");
+            return;
+        }
+        const result = await this.complete(cmd, input, selection);
+        if (result !== null) {
+            await this.plugin.createNoteFromResponse(result, {
+                command: cmd.command,
+                model: cmd.modelId,
+                attachments: file && !selection ? [file] : []
+            });
+        }
+    }
+
+    private insertBelow(editor: Editor, to: EditorPosition, text: string) {
+        const lineEnd = { line: to.line, ch: editor.getLine(to.line).length };
+        editor.replaceRange(`\n\n${text}\n`, lineEnd);
+    }
+}
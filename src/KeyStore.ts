@@ -0,0 +1,119 @@
+import { Platform } from "obsidian";
+import AITerminalPlugin, { PluginSettings } from "../main";
+
+// Where a provider's API key lives:
+// - settings: data.json, synced with the vault
+// - device: this vault's localStorage on this device, never synced
+// - env: read from an environment variable at request time (desktop only)
+export type KeyStorage = 'settings' | 'device' | 'env';
+
+export const KEY_STORAGE_LABELS: Record<KeyStorage, string> = {
+    settings: 'Plugin data (synced)',
+    device: 'This device only',
+    env: 'Environment variable'
+};
+
+type KeyField = 'googleApiKey' | 'openaiApiKey' | 'claudeApiKey' | 'localApiKey';
+
+// Built-in providers keep their synced keys in the original settings fields
+const SETTINGS_FIELDS: Record<string, KeyField> = {
+    gemini: 'googleApiKey',
+    openai: 'openaiApiKey',
+    claude: 'claudeApiKey',
+    local: 'localApiKey'
+};
+
+const DEVICE_PREFIX = 'ai-terminal-api-key-';
+
+/**
+ * The single accessor for provider API keys. Providers call get() at request time,
+ * so changing where a key is stored needs no change anywhere else.
+ */
+export class KeyStore {
+    private plugin: AITerminalPlugin;
+
+    constructor(plugin: AITerminalPlugin) {
+        this.plugin = plugin;
+    }
+
+    private get settings(): PluginSettings {
+        return this.plugin.settings;
+    }
+
+    static canUseEnv(): boolean {
+        return Platform.isDesktopApp && typeof process !== 'undefined' && !!process.env;
+    }
+
+    getStorage(id: string): KeyStorage {
+        return this.settings.keyStorage[id] || 'settings';
+    }
+
+    getEnvVar(id: string): string {
+        return this.settings.keyEnvVars[id] || '';
+    }
+
+    get(id: string): string {
+        switch (this.getStorage(id)) {
+            case 'device':
+                return this.plugin.app.loadLocalStorage(`${DEVICE_PREFIX}${id}`) || '';
+            case 'env': {
+                const name = this.getEnvVar(id);
+                return name && KeyStore.canUseEnv() ? (process.env[name] || '').trim() : '';
+            }
+            default:
+                return this.getSynced(id);
+        }
+    }
+
+    // Stores the key where its storage setting says; env keys are set outside Obsidian
+    set(id: string, value: string) {
+        switch (this.getStorage(id)) {
+            case 'device':
+                this.plugin.app.saveLocalStorage(`${DEVICE_PREFIX}${id}`, value || null);
+                break;
+            case 'env':
+                break;
+            default:
+                this.setSynced(id, value);
+        }
+    }
+
+    setEnvVar(id: string, name: string) {
+        this.settings.keyEnvVars[id] = name.trim();
+    }
+
+    // Moves the stored key along, so a key switched to device storage or an
+    // environment variable no longer remains in the synced plugin data. The key is
+    // written to its new place before the old copy is cleared, so a failure loses nothing.
+    async setStorage(id: string, storage: KeyStorage) {
+        const current = this.getStorage(id);
+        if (current === storage) return;
+        const value = current === 'env' ? '' : this.get(id);
+        this.settings.keyStorage[id] = storage;
+        try {
+            if (value) this.set(id, value);
+        } catch (e) {
+            this.settings.keyStorage[id] = current;
+            throw e;
+        }
+        if (current === 'device') this.plugin.app.saveLocalStorage(`${DEVICE_PREFIX}${id}`, null);
+        if (current === 'settings') this.setSynced(id, '');
+        await this.plugin.saveSettings();
+    }
+
+    private getSynced(id: string): string {
+        const field = SETTINGS_FIELDS[id];
+        return field ? this.settings[field] : (this.settings.apiKeys[id] || '');
+    }
+
+    private setSynced(id: string, value: string) {
+        const field = SETTINGS_FIELDS[id];
+        if (field) {
+            this.settings[field] = value;
+        } else if (value) {
+            this.settings.apiKeys[id] = value;
+        } else {
+            delete this.settings.apiKeys[id];
+        }
+    }
+}
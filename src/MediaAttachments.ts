@@ -0,0 +1,49 @@
+import { App, TFile, arrayBufferToBase64 } from "obsidian";
+import { MediaKind, MediaPart } from "./AIService";
+
+const MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    pdf: 'application/pdf'
+};
+// Providers reject inline payloads above roughly this size
+export const MAX_MEDIA_BYTES = 20 * 1024 * 1024;
+
+// Images and PDFs that can be sent to a model as inline parts
+export class MediaAttachments {
+
+    static isMedia(file: TFile): boolean {
+        return file.extension.toLowerCase() in MIME_TYPES;
+    }
+
+    static getKind(file: TFile): MediaKind {
+        return file.extension.toLowerCase() === 'pdf' ? 'pdf' : 'image';
+    }
+
+    // Media files embedded with ![[...]] in the given notes, in order of appearance
+    static getEmbeds(app: App, notes: TFile[]): TFile[] {
+        const found: TFile[] = [];
+        const seen = new Set<string>();
+        notes.forEach(note => {
+            (app.metadataCache.getFileCache(note)?.embeds || []).forEach(embed => {
+                const target = app.metadataCache.getFirstLinkpathDest(embed.link.split('#')[0], note.path);
+                if (!target || !this.isMedia(target) || seen.has(target.path)) return;
+                seen.add(target.path);
+                found.push(target);
+            });
+        });
+        return found;
+    }
+
+    static async load(app: App, file: TFile): Promise<MediaPart> {
+        const data = await app.vault.readBinary(file);
+        return {
+            kind: this.getKind(file),
+            mimeType: MIME_TYPES[file.extension.toLowerCase()],
+            data: arrayBufferToBase64(data),
+            name: file.name
+        };
+    }
+}
@@ -0,0 +1,223 @@
+import { App, Modal, Notice, Setting, TFile, moment, normalizePath, parseYaml } from "obsidian";
+import AITerminalPlugin from "../main";
+import { TemplateVariables } from "./TemplateVariables";
+
+// Where an AI response came from, for template placeholders and folder routing
+export interface NoteSource {
+    command?: string; // Custom command name or slash string
+    model?: string;
+    attachments?: TFile[];
+}
+
+export interface NoteFolderRule {
+    match: 'command' | 'type';
+    value: string;
+    folder: string;
+}
+
+export const DEFAULT_NOTE_TEMPLATE = `---
+title: "{{title}}"
+tags: []
+aliases: []
+created: "{{date:YYYY-MM-DD}} {{time}}"
+type: ["Note"]
+status: "작성완료"
+priority: "Medium"
+source: "AI Terminal"
+command: "{{command}}"
+model: "{{model}}"
+related: [{{attachments}}]
+keywords: []
+summary: ""
+---
+
+{{content}}`;
+
+export const NOTE_TEMPLATE_HELP = "Placeholders: {{title}}, {{content}}, {{command}}, {{model}}, {{attachments}} (quoted [[links]] for YAML lists), " +
+    "{{date}}, {{date:YYYYMMDD}}, {{time}}, {{vault.name}}";
+
+// Turns an AI response into a note using the configured template, filename pattern
+// and folder rules, after the user confirmed title and folder
+export class NoteCreator {
+    plugin: AITerminalPlugin;
+
+    constructor(plugin: AITerminalPlugin) {
+        this.plugin = plugin;
+    }
+
+    get app(): App {
+        return this.plugin.app;
+    }
+
+    // Frontmatter title, else the first heading, else the first line
+    static extractTitle(content: string): string {
+        const yamlMatch = content.match(/^---\n([\s\S]*?)\n---/);
+        const titleMatch = yamlMatch?.[1].match(/title:\s*"?([^"\n]+)"?/);
+        if (titleMatch) return titleMatch[1].trim();
+        const headingMatch = content.match(/^#\s+(.+)$/m);
+        if (headingMatch) return headingMatch[1].trim();
+        return content.split('\n')[0].substring(0, 50).replace(/[#"\\/]/g, '').trim();
+    }
+
+    static getTypes(content: string): string[] {
+        const yamlMatch = content.match(/^---\n([\s\S]*?)\n---/);
+        if (!yamlMatch) return [];
+        try {
+            const type = (parseYaml(yamlMatch[1]) || {}).type;
+            if (type === undefined || type === null) return [];
+            return (Array.isArray(type) ? type : [type]).map(t => String(t).toLowerCase());
+        } catch (e) {
+            return [];
+        }
+    }
+
+    async getTemplate(): Promise<string> {
+        const path = this.plugin.settings.noteTemplatePath.trim();
+        if (path) {
+            const file = this.app.vault.getAbstractFileByPath(normalizePath(path.endsWith('.md') ? path : `${path}.md`));
+            if (file instanceof TFile) return this.app.vault.read(file);
+            new Notice(`Note template "${path}" not found; using the template from settings`);
+        }
+        return this.plugin.settings.noteTemplate || DEFAULT_NOTE_TEMPLATE;
+    }
+
+    // Responses that bring their own frontmatter (e.g. the "Obsidian Note" prompt) are kept as they are
+    async render(content: string, title: string, source: NoteSource): Promise<string> {
+        if (/^---\n[\s\S]*?\n---/.test(content)) return content;
+        let template = await this.getTemplate();
+        if (!template.includes('{{content}}')) template += '\n\n{{content}}';
+        const expanded = TemplateVariables.expand(this.app, template, {
+            input: content,
+            extra: {
+                title,
+                content,
+                command: source.command || '',
+                model: source.model || '',
+                attachments: (source.attachments || []).map(f => `"[[${f.basename}]]"`).join(', ')
+            }
+        });
+        if (expanded.errors.length > 0) new Notice(`Note template: ${expanded.errors.join(', ')}`);
+        return expanded.text;
+    }
+
+    // First matching rule wins; otherwise the default folder
+    resolveFolder(content: string, source: NoteSource): string {
+        const command = (source.command || '').toLowerCase();
+        const types = NoteCreator.getTypes(content);
+        const rule = this.plugin.settings.noteFolderRules.find(r => {
+            const value = r.value.trim().toLowerCase();
+            if (!value) return false;
+            return r.match === 'command' ? value === command : types.indexOf(value) !== -1;
+        });
+        return rule ? rule.folder : this.plugin.settings.defaultFolder;
+    }
+
+    fileName(title: string, source: NoteSource): string {
+        const pattern = this.plugin.settings.noteFilenamePattern || '{{title}}';
+        const name = TemplateVariables.expand(this.app, pattern, {
+            input: title,
+            extra: { title, command: source.command || '', model: source.model || '' }
+        }).text;
+        return name.replace(/[\\/:*?"<>|#^[\]]/g, '-').trim() || `AI Response ${moment().format('YYYYMMDD')}`;
+    }
+
+    async create(response: string, source: NoteSource = {}) {
+        const title = NoteCreator.extractTitle(response) || 'AI Response';
+        const content = await this.render(response, title, source);
+        const folder = this.resolveFolder(content, source);
+        new CreateNoteModal(this.app, this.fileName(title, source), folder, async (name, targetFolder, open) => {
+            try {
+                const file = await this.write(name, targetFolder, content);
+                new Notice(`Note created: ${file.basename}`);
+                if (open) await this.app.workspace.getLeaf(false).openFile(file);
+            } catch (e: any) {
+                new Notice(`Failed to create note: ${e.message}`);
+            }
+        }).open();
+    }
+
+    private async write(name: string, folder: string, content: string): Promise<TFile> {
+        const folderPath = folder ? normalizePath(folder) : '';
+        if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+            await this.app.vault.createFolder(folderPath);
+        }
+        const prefix = folderPath ? `${folderPath}/` : '';
+        let path = `${prefix}${name}.md`;
+        let counter = 1;
+        while (this.app.vault.getAbstractFileByPath(path)) {
+            path = `${prefix}${name} ${counter}.md`;
+            counter++;
+        }
+        return this.app.vault.create(path, content);
+    }
+}
+
+// Confirms file name and folder before a note is created
+export class CreateNoteModal extends Modal {
+    name: string;
+    folder: string;
+    openAfter: boolean = true;
+    onSubmit: (name: string, folder: string, open: boolean) => void;
+
+    constructor(app: App, name: string, folder: string, onSubmit: (name: string, folder: string, open: boolean) => void) {
+        super(app);
+        this.name = name;
+        this.folder = folder;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h3", { text: "Create note" });
+
+        const submit = () => {
+            const name = this.name.trim();
+            if (!name) return;
+            this.onSubmit(name, this.folder.trim(), this.openAfter);
+            this.close();
+        };
+
+        new Setting(contentEl)
+            .setName("Title")
+            .addText(text => {
+                text.setValue(this.name)
+                    .onChange(value => this.name = value);
+                text.inputEl.style.width = "100%";
+                text.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
+                    if (e.key === "Enter" && !e.isComposing) {
+                        e.preventDefault();
+                        submit();
+                    }
+                });
+                setTimeout(() => text.inputEl.select(), 50);
+            });
+
+        new Setting(contentEl)
+            .setName("Folder")
+            .setDesc("Leave empty for the vault root")
+            .addText(text => text
+                .setValue(this.folder)
+                .onChange(value => this.folder = value));
+
+        new Setting(contentEl)
+            .setName("Open after creating")
+            .addToggle(toggle => toggle
+                .setValue(this.openAfter)
+                .onChange(value => this.openAfter = value));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText("Create")
+                .setCta()
+                .onClick(submit));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
@@ -0,0 +1,165 @@
+import { App, TFile } from "obsidian";
+
+// One search/replace edit proposed by the model
+export interface NoteEdit {
+    path: string;
+    find: string; // Exact text to replace; empty to append to the end of the note
+    replace: string;
+}
+
+export type HunkStatus = 'ok' | 'stale' | 'invalid';
+
+export interface EditHunk {
+    edit: NoteEdit;
+    file: TFile | null;
+    offset: number; // Position of `find` in the note's current content
+    status: HunkStatus;
+    reason?: string;
+}
+
+export interface ApplyResult {
+    applied: number;
+    refused: EditHunk[];
+}
+
+export const EDIT_INSTRUCTIONS = `
+
+Edit mode: you may change the attached notes. Explain the change briefly, then add one \`\`\`note-edits fenced block holding a JSON array of edits:
+[{"path": "folder/Note.md", "find": "exact text copied from the note", "replace": "new text"}]
+- "path" is the note path shown after "=== NOTE:".
+- "find" must be copied verbatim from the note and be long enough to occur exactly once.
+- Use an empty "find" to append "replace" to the end of the note.
+- Prefer several small edits over rewriting a whole note.`;
+
+// Parses, validates and applies structured edits from an AI response. Every hunk is
+// checked against a hash of the content the model saw, so edits to notes that changed
+// in the meantime are refused instead of silently landing in the wrong place.
+export class NoteEdits {
+
+    static parse(response: string): NoteEdit[] {
+        const edits: NoteEdit[] = [];
+        const blocks = response.match(/```note-edits\s*\n[\s\S]*?```/g) || [];
+        blocks.forEach(block => {
+            const json = block.replace(/^```note-edits\s*\n/, '').replace(/```$/, '');
+            try {
+                const parsed = JSON.parse(json);
+                (Array.isArray(parsed) ? parsed : [parsed]).forEach((e: any) => {
+                    if (e && typeof e.path === 'string' && typeof e.replace === 'string') {
+                        edits.push({ path: e.path, find: typeof e.find === 'string' ? e.find : '', replace: e.replace });
+                    }
+                });
+            } catch (e) {
+                console.error("AI Terminal: could not parse note edits", e);
+            }
+        });
+        return edits;
+    }
+
+    private static occurrences(content: string, text: string): number {
+        let count = 0;
+        let idx = content.indexOf(text);
+        while (idx !== -1) {
+            count++;
+            idx = content.indexOf(text, idx + 1);
+        }
+        return count;
+    }
+
+    // FNV-1a, prefixed with the length; only compared for equality
+    static hash(content: string): string {
+        let h = 0x811c9dc5;
+        for (let i = 0; i < content.length; i++) {
+            h ^= content.charCodeAt(i);
+            h = Math.imul(h, 0x01000193);
+        }
+        return `${content.length}:${(h >>> 0).toString(36)}`;
+    }
+
+    static resolveFile(app: App, path: string): TFile | null {
+        const file = app.vault.getAbstractFileByPath(path);
+        if (file instanceof TFile) return file;
+        return app.metadataCache.getFirstLinkpathDest(path.replace(/\.md$/, ''), '');
+    }
+
+    // hashes holds the hash of each note as it was sent to the model, by path; notes
+    // without one (e.g. from older sessions) are checked against their current content.
+    // The current contents read along the way are left in `contents`.
+    static async check(app: App, edits: NoteEdit[], hashes: Record<string, string>, contents: Map<string, string> = new Map()): Promise<EditHunk[]> {
+        const hunks: EditHunk[] = [];
+        for (const edit of edits) {
+            const file = this.resolveFile(app, edit.path);
+            if (!file) {
+                hunks.push({ edit, file: null, offset: -1, status: 'invalid', reason: "note not found" });
+                continue;
+            }
+            if (!contents.has(file.path)) contents.set(file.path, await app.vault.read(file));
+            hunks.push(this.checkHunk(edit, file, hashes[file.path], contents.get(file.path)!));
+        }
+        return hunks;
+    }
+
+    private static checkHunk(edit: NoteEdit, file: TFile, hash: string | undefined, current: string): EditHunk {
+        if (hash !== undefined && hash !== this.hash(current)) {
+            return { edit, file, offset: -1, status: 'stale', reason: "note changed since it was read" };
+        }
+        if (!edit.find) return { edit, file, offset: current.length, status: 'ok' };
+        const count = this.occurrences(current, edit.find);
+        if (count === 0) {
+            return { edit, file, offset: -1, status: 'invalid', reason: "text to replace not found in the note" };
+        }
+        if (count > 1) {
+            return { edit, file, offset: -1, status: 'invalid', reason: `text to replace occurs ${count} times` };
+        }
+        return { edit, file, offset: current.indexOf(edit.find), status: 'ok' };
+    }
+
+    // Apply hunks back to front so earlier offsets stay valid; overlapping hunks are refused
+    static applyToContent(content: string, hunks: EditHunk[]): { content: string, refused: EditHunk[] } {
+        const refused: EditHunk[] = [];
+        const sorted = [...hunks].sort((a, b) => b.offset - a.offset);
+        let result = content;
+        let limit = Infinity;
+        sorted.forEach(hunk => {
+            const end = hunk.offset + hunk.edit.find.length;
+            if (hunk.edit.find && end > limit) {
+                refused.push({ ...hunk, status: 'invalid', reason: "overlaps another edit" });
+                return;
+            }
+            if (!hunk.edit.find) {
+                const separator = result.length === 0 || result.endsWith('\n') ? '' : '\n';
+                result = `${result}${separator}${hunk.edit.replace}`;
+            } else {
+                result = result.substring(0, hunk.offset) + hunk.edit.replace + result.substring(end);
+                limit = hunk.offset;
+            }
+        });
+        return { content: result, refused };
+    }
+
+    // Re-checks the accepted hunks against the notes right before writing them
+    static async apply(app: App, accepted: EditHunk[], hashes: Record<string, string>): Promise<ApplyResult> {
+        const result: ApplyResult = { applied: 0, refused: [] };
+        const byFile = new Map<string, EditHunk[]>();
+        accepted.forEach(hunk => {
+            if (!hunk.file) return;
+            byFile.set(hunk.file.path, [...(byFile.get(hunk.file.path) || []), hunk]);
+        });
+
+        for (const [path, hunks] of Array.from(byFile.entries())) {
+            const file = hunks[0].file!;
+            const current = await app.vault.read(file);
+            const rechecked = hunks.map(h => this.checkHunk(h.edit, file, hashes[path], current));
+            const ready = rechecked.filter(h => h.status === 'ok');
+            result.refused.push(...rechecked.filter(h => h.status !== 'ok'));
+            if (ready.length === 0) continue;
+
+            const updated = this.applyToContent(current, ready);
+            result.refused.push(...updated.refused);
+            result.applied += ready.length - updated.refused.length;
+            await app.vault.modify(file, updated.content);
+            // Later reviews of the same response compare against what was just written
+            hashes[path] = this.hash(updated.content);
+        }
+        return result;
+    }
+}
@@ -0,0 +1,164 @@
+import { App, TFile, getAllTags } from "obsidian";
+
+export interface NoteSection {
+    type: 'section' | 'block';
+    id: string; // Heading text or block id
+    label: string;
+    level: number; // Heading level, 0 for blocks
+    occurrence?: number; // Which of the headings with this text, counted from 0
+}
+
+export interface LinkedNote {
+    file: TFile;
+    depth: number; // Hops from the root note
+    direction: 'out' | 'in'; // Reached through an outgoing link or a backlink
+}
+
+// Resolves the "live" attachment groups (tag, frontmatter, search) and link
+// neighborhoods to notes
+export class NoteQuery {
+
+    static normalizeTag(tag: string): string {
+        return tag.trim().replace(/^#/, '').toLowerCase();
+    }
+
+    static getFileTags(app: App, file: TFile): string[] {
+        const cache = app.metadataCache.getFileCache(file);
+        if (!cache) return [];
+        return (getAllTags(cache) || []).map(t => this.normalizeTag(t));
+    }
+
+    // Every tag in the vault, including the parents of nested tags
+    static getAllVaultTags(app: App): string[] {
+        const tags = new Set<string>();
+        app.vault.getMarkdownFiles().forEach(file => {
+            this.getFileTags(app, file).forEach(tag => {
+                const parts = tag.split('/');
+                for (let i = 1; i <= parts.length; i++) {
+                    tags.add(parts.slice(0, i).join('/'));
+                }
+            });
+        });
+        return Array.from(tags).sort();
+    }
+
+    // Notes with the tag or any tag nested below it
+    static byTag(app: App, tag: string): TFile[] {
+        const wanted = this.normalizeTag(tag);
+        return app.vault.getMarkdownFiles().filter(file =>
+            this.getFileTags(app, file).some(t => t === wanted || t.startsWith(`${wanted}/`))
+        );
+    }
+
+    static parseFrontmatterCondition(condition: string): { key: string, value: string } | null {
+        const idx = condition.indexOf(':');
+        if (idx <= 0) return null;
+        const key = condition.slice(0, idx).trim();
+        const value = condition.slice(idx + 1).trim().replace(/^["']|["']$/g, '');
+        return key ? { key, value } : null;
+    }
+
+    // Notes whose frontmatter field equals the value, or contains it when the field is a list
+    static byFrontmatter(app: App, condition: string): TFile[] {
+        const parsed = this.parseFrontmatterCondition(condition);
+        if (!parsed) return [];
+        const wanted = parsed.value.toLowerCase();
+        return app.vault.getMarkdownFiles().filter(file => {
+            const frontmatter = app.metadataCache.getFileCache(file)?.frontmatter;
+            if (!frontmatter || !(parsed.key in frontmatter)) return false;
+            const actual = frontmatter[parsed.key];
+            if (!wanted) return true;
+            const values = Array.isArray(actual) ? actual : [actual];
+            return values.some(v => v !== null && v !== undefined && String(v).toLowerCase() === wanted);
+        });
+    }
+
+    // Notes whose title or content contains every word of the query
+    static async bySearch(app: App, query: string): Promise<TFile[]> {
+        const words = query.toLowerCase().split(/\s+/).filter(w => w.length > 0);
+        if (words.length === 0) return [];
+        const matches: TFile[] = [];
+        for (const file of app.vault.getMarkdownFiles()) {
+            const text = `${file.path}\n${await app.vault.cachedRead(file)}`.toLowerCase();
+            if (words.every(w => text.includes(w))) matches.push(file);
+        }
+        return matches;
+    }
+
+    // Breadth-first walk over resolved links (unresolved links never appear in
+    // resolvedLinks). The root itself is not included in the result.
+    static linkNeighborhood(app: App, root: TFile, maxDepth: number, outgoing: boolean, backlinks: boolean): LinkedNote[] {
+        const resolved = app.metadataCache.resolvedLinks;
+        const visited = new Set<string>([root.path]);
+        const result: LinkedNote[] = [];
+        let frontier = [root.path];
+
+        for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+            const next: string[] = [];
+            const visit = (path: string, direction: 'out' | 'in') => {
+                if (visited.has(path)) return;
+                const file = app.vault.getAbstractFileByPath(path);
+                if (!(file instanceof TFile) || file.extension !== 'md') return;
+                visited.add(path);
+                result.push({ file, depth, direction });
+                next.push(path);
+            };
+
+            frontier.forEach(path => {
+                if (outgoing) {
+                    Object.keys(resolved[path] || {}).forEach(target => visit(target, 'out'));
+                }
+                if (backlinks) {
+                    Object.keys(resolved).forEach(source => {
+                        if (resolved[source][path]) visit(source, 'in');
+                    });
+                }
+            });
+            frontier = next;
+        }
+        return result;
+    }
+
+    // Headings and ^block-ids of a note, in document order
+    static getSections(app: App, file: TFile): NoteSection[] {
+        const cache = app.metadataCache.getFileCache(file);
+        if (!cache) return [];
+        const entries: { offset: number, section: NoteSection }[] = [];
+        const seen = new Map<string, number>();
+        (cache.headings || []).forEach(h => {
+            const occurrence = seen.get(h.heading) || 0;
+            seen.set(h.heading, occurrence + 1);
+            entries.push({
+                offset: h.position.start.offset,
+                section: { type: 'section', id: h.heading, label: h.heading, level: h.level, occurrence }
+            });
+        });
+        const blocks = cache.blocks || {};
+        Object.keys(blocks).forEach(id => entries.push({
+            offset: blocks[id].position.start.offset,
+            section: { type: 'block', id: blocks[id].id, label: `^${blocks[id].id}`, level: 0 }
+        }));
+        return entries.sort((a, b) => a.offset - b.offset).map(e => e.section);
+    }
+
+    // Text from a heading up to the next heading of the same or higher level.
+    // Duplicate headings are told apart by occurrence. Returns null when the heading no longer exists.
+    static async readSection(app: App, file: TFile, heading: string, occurrence = 0): Promise<string | null> {
+        const headings = app.metadataCache.getFileCache(file)?.headings || [];
+        const matches = headings.map((h, i) => h.heading === heading ? i : -1).filter(i => i !== -1);
+        if (matches.length === 0) return null;
+        // Falls back to the last one when some of the duplicates were removed
+        const idx = matches[Math.min(occurrence, matches.length - 1)];
+        const start = headings[idx].position.start.offset;
+        const next = headings.slice(idx + 1).find(h => h.level <= headings[idx].level);
+        const content = await app.vault.cachedRead(file);
+        return content.substring(start, next ? next.position.start.offset : content.length).trim();
+    }
+
+    static async readBlock(app: App, file: TFile, blockId: string): Promise<string | null> {
+        const block = app.metadataCache.getFileCache(file)?.blocks?.[blockId.replace(/^\^/, '').toLowerCase()];
+        if (!block) return null;
+        const content = await app.vault.cachedRead(file);
+        return content.substring(block.position.start.offset, block.position.end.offset).trim();
+    }
+}
@@ -1,4 +1,6 @@
 import { App, FuzzySuggestModal, TFile, TFolder, Modal } from "obsidian";
+import { NoteQuery, LinkedNote, NoteSection } from "./NoteQuery";
+import { MediaAttachments } from "./MediaAttachments";
 
 export class NoteSuggester extends FuzzySuggestModal<TFile> {
     onChoose: (result: TFile) => void;
@@ -21,6 +23,29 @@ export class NoteSuggester extends FuzzySuggestModal<TFile> {
     }
 }
 
+// Images and PDFs in the vault
+export class MediaSuggester extends FuzzySuggestModal<TFile> {
+    onChoose: (result: TFile) => void;
+
+    constructor(app: App, onChoose: (result: TFile) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder("Attach an image or PDF...");
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(f => MediaAttachments.isMedia(f));
+    }
+
+    getItemText(item: TFile): string {
+        return item.path;
+    }
+
+    onChooseItem(item: TFile, evt: MouseEvent | KeyboardEvent): void {
+        this.onChoose(item);
+    }
+}
+
 // Multi-select note modal
 export class MultiNoteSuggester extends Modal {
     app: App;
@@ -201,3 +226,199 @@ export class FolderSuggester extends FuzzySuggestModal<TFolder> {
         this.onChoose(item);
     }
 }
+
+// Tag suggester modal
+export class TagSuggester extends FuzzySuggestModal<string> {
+    onChoose: (result: string) => void;
+
+    constructor(app: App, onChoose: (result: string) => void) {
+        super(app);
+        this.onChoose = onChoose;
+        this.setPlaceholder("Attach all notes with tag...");
+    }
+
+    getItems(): string[] {
+        return NoteQuery.getAllVaultTags(this.app);
+    }
+
+    getItemText(item: string): string {
+        return `#${item}`;
+    }
+
+    onChooseItem(item: string, evt: MouseEvent | KeyboardEvent): void {
+        this.onChoose(item);
+    }
+}
+
+export interface LinkNeighborhoodSelection {
+    files: TFile[]; // Root note plus the checked linked notes
+    depth: number;
+}
+
+// Link neighborhood modal: walks links from a root note and lets the user pick notes
+export class LinkNeighborhoodModal extends Modal {
+    root: TFile;
+    depth: number;
+    outgoing: boolean = true;
+    backlinks: boolean = true;
+    neighborhood: LinkedNote[] = [];
+    // Paths the user unchecked; everything else in the neighborhood is selected
+    excluded: Set<string>;
+    onSubmit: (selection: LinkNeighborhoodSelection) => void;
+    listContainer: HTMLElement;
+    countEl: HTMLElement;
+
+    constructor(app: App, root: TFile, depth: number, excluded: string[], onSubmit: (selection: LinkNeighborhoodSelection) => void) {
+        super(app);
+        this.root = root;
+        this.depth = depth;
+        this.excluded = new Set(excluded);
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass("multi-note-suggester");
+
+        contentEl.createEl("h3", { text: `Links around "${this.root.basename}"` });
+
+        const controls = contentEl.createDiv({ cls: "link-neighborhood-controls" });
+
+        const depthLabel = controls.createEl("label", { text: "Depth " });
+        const depthSelect = depthLabel.createEl("select");
+        [1, 2, 3].forEach(d => {
+            const opt = depthSelect.createEl("option", { value: String(d), text: String(d) });
+            if (d === this.depth) opt.selected = true;
+        });
+        depthSelect.onchange = () => {
+            this.depth = parseInt(depthSelect.value, 10);
+            this.recompute();
+        };
+
+        const createToggle = (label: string, checked: boolean, onChange: (value: boolean) => void) => {
+            const toggleLabel = controls.createEl("label");
+            const checkbox = toggleLabel.createEl("input", { type: "checkbox" });
+            checkbox.checked = checked;
+            toggleLabel.appendText(` ${label}`);
+            checkbox.onchange = () => {
+                onChange(checkbox.checked);
+                this.recompute();
+            };
+        };
+        createToggle("Outgoing links", this.outgoing, v => this.outgoing = v);
+        createToggle("Backlinks", this.backlinks, v => this.backlinks = v);
+
+        this.countEl = contentEl.createDiv({ cls: "multi-note-count" });
+        this.listContainer = contentEl.createDiv({ cls: "multi-note-list" });
+
+        const buttonContainer = contentEl.createDiv({ cls: "multi-note-buttons" });
+
+        const selectAllBtn = buttonContainer.createEl("button", { text: "Select All" });
+        selectAllBtn.onclick = () => {
+            this.excluded.clear();
+            this.renderList();
+        };
+
+        const clearBtn = buttonContainer.createEl("button", { text: "Clear All" });
+        clearBtn.onclick = () => {
+            this.neighborhood.forEach(n => this.excluded.add(n.file.path));
+            this.renderList();
+        };
+
+        const submitBtn = buttonContainer.createEl("button", { text: "Done", cls: "mod-cta" });
+        submitBtn.onclick = () => {
+            const files = [this.root, ...this.neighborhood
+                .filter(n => !this.excluded.has(n.file.path))
+                .map(n => n.file)];
+            this.onSubmit({ files, depth: this.depth });
+            this.close();
+        };
+
+        const cancelBtn = buttonContainer.createEl("button", { text: "Cancel" });
+        cancelBtn.onclick = () => this.close();
+
+        this.recompute();
+    }
+
+    recompute() {
+        this.neighborhood = NoteQuery.linkNeighborhood(this.app, this.root, this.depth, this.outgoing, this.backlinks);
+        this.renderList();
+    }
+
+    renderList() {
+        this.listContainer.empty();
+
+        if (this.neighborhood.length === 0) {
+            this.listContainer.createDiv({ cls: "multi-note-empty", text: "No resolved links found." });
+        }
+
+        for (let depth = 1; depth <= this.depth; depth++) {
+            const level = this.neighborhood.filter(n => n.depth === depth);
+            if (level.length === 0) continue;
+            this.listContainer.createDiv({ cls: "link-depth-header", text: `Depth ${depth} (${level.length})` });
+
+            level.forEach(node => {
+                const item = this.listContainer.createDiv({ cls: "multi-note-item" });
+                const checkbox = item.createEl("input", { type: "checkbox", cls: "multi-note-checkbox" });
+                checkbox.checked = !this.excluded.has(node.file.path);
+                checkbox.onchange = () => {
+                    if (checkbox.checked) {
+                        this.excluded.delete(node.file.path);
+                    } else {
+                        this.excluded.add(node.file.path);
+                    }
+                    this.updateCount();
+                };
+                item.createEl("span", {
+                    text: node.direction === 'out' ? "→" : "←",
+                    cls: "link-direction",
+                    attr: { title: node.direction === 'out' ? "Outgoing link" : "Backlink" }
+                });
+                const fileName = item.createEl("span", { text: node.file.path, cls: "file-name" });
+                fileName.onclick = () => {
+                    checkbox.checked = !checkbox.checked;
+                    checkbox.onchange?.(new Event("change"));
+                };
+            });
+        }
+        this.updateCount();
+    }
+
+    updateCount() {
+        const selected = this.neighborhood.filter(n => !this.excluded.has(n.file.path)).length;
+        this.countEl.setText(`Selected: ${selected + 1} notes (including "${this.root.basename}")`);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+// Heading / block suggester modal for a single note
+export class SectionSuggester extends FuzzySuggestModal<NoteSection> {
+    file: TFile;
+    onChoose: (result: NoteSection) => void;
+
+    constructor(app: App, file: TFile, onChoose: (result: NoteSection) => void) {
+        super(app);
+        this.file = file;
+        this.onChoose = onChoose;
+        this.setPlaceholder(`Attach a heading or block from "${file.basename}"...`);
+    }
+
+    getItems(): NoteSection[] {
+        return NoteQuery.getSections(this.app, this.file);
+    }
+
+    getItemText(item: NoteSection): string {
+        return item.type === 'section'
+            ? `${'  '.repeat(Math.max(0, item.level - 1))}${'#'.repeat(item.level)} ${item.label}`
+            : item.label;
+    }
+
+    onChooseItem(item: NoteSection, evt: MouseEvent | KeyboardEvent): void {
+        this.onChoose(item);
+    }
+}
@@ -0,0 +1,123 @@
+import { AIRequestError } from "./AIService";
+
+export interface RequestRunnerOptions {
+    timeoutSeconds: number; // 0 waits indefinitely
+    maxRetries: number;
+    onRetry?: (retry: number, maxRetries: number, delayMs: number, error: AIRequestError) => void;
+}
+
+export class RequestCancelledError extends Error {
+    constructor() {
+        super("Request cancelled");
+        this.name = 'RequestCancelledError';
+    }
+}
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60000;
+
+/**
+ * Runs provider calls for one user request with a timeout, retries with exponential
+ * backoff (or the server's Retry-After) on rate-limit and overload responses, and
+ * cancellation. requestUrl cannot be aborted, so a cancelled or timed-out call is
+ * abandoned and its late result ignored; streaming fetches are aborted for real.
+ */
+export class RequestRunner {
+    private controller = new AbortController();
+    private options: RequestRunnerOptions;
+    private restartTimer: (() => void) | null = null;
+    private progressed = false;
+
+    constructor(options: RequestRunnerOptions) {
+        this.options = options;
+    }
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    get cancelled(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    cancel() {
+        this.controller.abort();
+    }
+
+    // Called for every streamed chunk: the timeout restarts, and a call that already
+    // produced output is never retried so text is not repeated
+    progress() {
+        this.progressed = true;
+        if (this.restartTimer) this.restartTimer();
+    }
+
+    async run<T>(call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            this.progressed = false;
+            try {
+                return await this.attempt(call);
+            } catch (e) {
+                const retryable = e instanceof AIRequestError && e.retryable && !this.progressed;
+                if (!retryable || attempt >= this.options.maxRetries) throw e;
+                const error = e as AIRequestError;
+                const delay = Math.min(
+                    error.retryAfterMs !== undefined ? error.retryAfterMs : BASE_DELAY_MS * Math.pow(2, attempt),
+                    MAX_DELAY_MS
+                );
+                if (this.options.onRetry) this.options.onRetry(attempt + 1, this.options.maxRetries, delay, error);
+                await this.wait(delay);
+            }
+        }
+    }
+
+    private attempt<T>(call: (signal: AbortSignal) => Promise<T>): Promise<T> {
+        if (this.cancelled) return Promise.reject(new RequestCancelledError());
+        const attemptController = new AbortController();
+        const { timeoutSeconds } = this.options;
+
+        return new Promise<T>((resolve, reject) => {
+            let timer: number | null = null;
+            const finish = () => {
+                if (timer !== null) window.clearTimeout(timer);
+                this.restartTimer = null;
+                this.signal.removeEventListener('abort', onAbort);
+            };
+            const onAbort = () => {
+                attemptController.abort();
+                finish();
+                reject(new RequestCancelledError());
+            };
+            const startTimer = () => {
+                if (!timeoutSeconds) return;
+                if (timer !== null) window.clearTimeout(timer);
+                timer = window.setTimeout(() => {
+                    attemptController.abort();
+                    finish();
+                    reject(new Error(`Request timed out after ${timeoutSeconds}s`));
+                }, timeoutSeconds * 1000);
+            };
+
+            this.signal.addEventListener('abort', onAbort);
+            this.restartTimer = startTimer;
+            startTimer();
+            call(attemptController.signal).then(
+                value => { finish(); resolve(value); },
+                error => { finish(); reject(error); }
+            );
+        });
+    }
+
+    private wait(ms: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                window.clearTimeout(timer);
+                reject(new RequestCancelledError());
+            };
+            const timer = window.setTimeout(() => {
+                this.signal.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            this.signal.addEventListener('abort', onAbort);
+        });
+    }
+}
@@ -0,0 +1,83 @@
+import { App, FuzzySuggestModal, Modal, Setting, moment } from "obsidian";
+import { ChatSession } from "../main";
+
+// Session picker modal
+export class SessionSuggester extends FuzzySuggestModal<ChatSession> {
+    sessions: ChatSession[];
+    onChoose: (result: ChatSession) => void;
+
+    constructor(app: App, sessions: ChatSession[], onChoose: (result: ChatSession) => void) {
+        super(app);
+        this.sessions = sessions;
+        this.onChoose = onChoose;
+        this.setPlaceholder("Resume a chat session...");
+    }
+
+    getItems(): ChatSession[] {
+        return [...this.sessions].sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    getItemText(item: ChatSession): string {
+        const updated = moment(item.updatedAt).format("YYYY-MM-DD HH:mm");
+        return `${item.name} (${item.messages.length} messages, ${updated})`;
+    }
+
+    onChooseItem(item: ChatSession, evt: MouseEvent | KeyboardEvent): void {
+        this.onChoose(item);
+    }
+}
+
+// Single-line text prompt modal
+export class TextInputModal extends Modal {
+    title: string;
+    value: string;
+    onSubmit: (value: string) => void;
+
+    constructor(app: App, title: string, value: string, onSubmit: (value: string) => void) {
+        super(app);
+        this.title = title;
+        this.value = value;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.createEl("h3", { text: this.title });
+
+        const submit = () => {
+            const value = this.value.trim();
+            if (!value) return;
+            this.onSubmit(value);
+            this.close();
+        };
+
+        new Setting(contentEl)
+            .addText(text => {
+                text.setValue(this.value)
+                    .onChange(value => this.value = value);
+                text.inputEl.style.width = "100%";
+                text.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
+                    if (e.key === "Enter" && !e.isComposing) {
+                        e.preventDefault();
+                        submit();
+                    }
+                });
+                setTimeout(() => text.inputEl.select(), 50);
+            });
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText("Cancel")
+                .onClick(() => this.close()))
+            .addButton(btn => btn
+                .setButtonText("Save")
+                .setCta()
+                .onClick(submit));
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
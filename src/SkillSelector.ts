@@ -0,0 +1,33 @@
+import { Skill } from "../main";
+import { VaultIndex } from "./VaultIndex";
+
+// Description terms a message must share with a skill before it is applied
+const MIN_SHARED_TERMS = 2;
+const MAX_AUTO_SKILLS = 3;
+
+// Picks the enabled skills relevant to a message without calling a model: a skill
+// applies when the message contains one of its keywords or shares enough terms
+// with its name and description. Pinned skills always apply.
+export class SkillSelector {
+
+    static select(skills: Skill[], message: string, pinnedIds: string[] = []): Skill[] {
+        const pinned = skills.filter(s => pinnedIds.indexOf(s.id) !== -1);
+        const lowered = message.toLowerCase();
+        const terms = new Set(VaultIndex.tokenize(message));
+
+        const scored = skills
+            .filter(s => s.enabled && pinned.indexOf(s) === -1)
+            .map(skill => {
+                const keywordHit = (skill.keywords || []).some(k => k.trim() && lowered.includes(k.trim().toLowerCase()));
+                const skillTerms = new Set(VaultIndex.tokenize(`${skill.name.replace(/[-_]/g, ' ')} ${skill.description}`));
+                let shared = 0;
+                skillTerms.forEach(t => { if (terms.has(t)) shared++; });
+                return { skill, score: keywordHit ? Infinity : shared };
+            })
+            .filter(s => s.score >= MIN_SHARED_TERMS)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_AUTO_SKILLS);
+
+        return [...pinned, ...scored.map(s => s.skill)];
+    }
+}
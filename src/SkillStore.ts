@@ -0,0 +1,247 @@
+import { Notice, normalizePath, parseYaml, stringifyYaml } from "obsidian";
+import AITerminalPlugin, { Skill } from "../main";
+
+export interface SkillResource {
+    path: string; // Relative to the skill folder
+    content: string;
+}
+
+const SKILL_FILE = 'SKILL.md';
+const TEXT_RESOURCE = /\.(md|txt|json|ya?ml|csv|tsv|xml|html|css|js|ts|py|sh)$/i;
+const MAX_RESOURCE_CHARS = 20000;
+
+/**
+ * Keeps settings.skills in sync with <configDir>/skills/<folder>/SKILL.md. The
+ * config dir is not part of the indexed vault and raises no vault events, so
+ * files are read through the adapter and changes are found by polling.
+ * SKILL.md is the source of truth for name, description and instructions;
+ * data.json only remembers which skills are enabled.
+ */
+export class SkillStore {
+    private plugin: AITerminalPlugin;
+    // Folder listing with modification times, compared on every poll
+    private signature = '';
+    private resources: Map<string, SkillResource[]> = new Map();
+    private pendingWrites: Map<string, number> = new Map();
+    // Loads, polls, writes and deletes run one at a time, so a skill is never read
+    // half-written or brought back while its folder is being removed
+    private queue: Promise<void> = Promise.resolve();
+    private queued = 0;
+
+    constructor(plugin: AITerminalPlugin) {
+        this.plugin = plugin;
+    }
+
+    get dir(): string {
+        return normalizePath(`${this.plugin.app.vault.configDir}/skills`);
+    }
+
+    static folderName(name: string): string {
+        return name.replace(/[\\/:*?"<>|]/g, '-').trim().toLowerCase() || 'skill';
+    }
+
+    static parse(content: string): { name?: string, description?: string, keywords?: string[], instructions: string } {
+        const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+        if (!match) return { instructions: content.trim() };
+        let frontmatter: any = {};
+        try {
+            frontmatter = parseYaml(match[1]) || {};
+        } catch (e) {
+            console.error("AI Terminal: invalid SKILL.md frontmatter", e);
+        }
+        return {
+            name: typeof frontmatter.name === 'string' ? frontmatter.name : undefined,
+            description: typeof frontmatter.description === 'string' ? frontmatter.description : undefined,
+            keywords: Array.isArray(frontmatter.keywords)
+                ? frontmatter.keywords.map(String)
+                : typeof frontmatter.keywords === 'string' ? frontmatter.keywords.split(',').map((k: string) => k.trim()).filter(Boolean) : undefined,
+            instructions: content.substring(match[0].length).trim()
+        };
+    }
+
+    static serialize(skill: Skill): string {
+        const frontmatter: Record<string, any> = { name: skill.name, description: skill.description };
+        if (skill.keywords && skill.keywords.length > 0) frontmatter.keywords = skill.keywords;
+        return `---\n${stringifyYaml(frontmatter)}---\n\n${skill.instructions}\n`;
+    }
+
+    getResources(skill: Skill): SkillResource[] {
+        return this.resources.get(skill.id) || [];
+    }
+
+    // Every file below a folder, relative to it
+    private async listFiles(folder: string, prefix = ''): Promise<string[]> {
+        const adapter = this.plugin.app.vault.adapter;
+        const listing = await adapter.list(folder);
+        const files = listing.files.map(f => `${prefix}${f.substring(folder.length + 1)}`);
+        for (const sub of listing.folders) {
+            const name = sub.substring(folder.length + 1);
+            files.push(...await this.listFiles(sub, `${prefix}${name}/`));
+        }
+        return files;
+    }
+
+    private async computeSignature(): Promise<string> {
+        const adapter = this.plugin.app.vault.adapter;
+        if (!(await adapter.exists(this.dir))) return '';
+        const parts: string[] = [];
+        for (const folder of (await adapter.list(this.dir)).folders.sort()) {
+            for (const file of (await this.listFiles(folder)).sort()) {
+                const stat = await adapter.stat(`${folder}/${file}`);
+                parts.push(`${folder}/${file}:${stat ? stat.mtime : 0}`);
+            }
+        }
+        return parts.join('\n');
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        this.queued++;
+        const done = () => { this.queued--; };
+        const run = this.queue.then(task);
+        this.queue = run.then(done, done);
+        return run;
+    }
+
+    // Polled by the plugin; reloads only when something on disk changed. A poll is
+    // skipped while a load or an earlier poll is still running.
+    async sync() {
+        if (this.queued > 0 || this.pendingWrites.size > 0) return;
+        try {
+            await this.enqueue(async () => {
+                if (await this.computeSignature() !== this.signature) await this.reload();
+            });
+        } catch (e) {
+            console.error("AI Terminal: skill sync failed", e);
+        }
+    }
+
+    load(): Promise<void> {
+        return this.enqueue(() => this.reload());
+    }
+
+    private async reload() {
+        const adapter = this.plugin.app.vault.adapter;
+        const settings = this.plugin.settings;
+        const onDisk = new Map<string, { name?: string, description?: string, keywords?: string[], instructions: string, files: string[] }>();
+
+        if (await adapter.exists(this.dir)) {
+            for (const folderPath of (await adapter.list(this.dir)).folders) {
+                const folder = folderPath.substring(this.dir.length + 1);
+                const skillFile = `${folderPath}/${SKILL_FILE}`;
+                if (!(await adapter.exists(skillFile))) continue;
+                const parsed = SkillStore.parse(await adapter.read(skillFile));
+                const files = (await this.listFiles(folderPath)).filter(f => f !== SKILL_FILE);
+                onDisk.set(folder, { ...parsed, files });
+            }
+        }
+
+        const skills: Skill[] = [];
+        for (const skill of settings.skills) {
+            // Skills created before disk sync, or exported under their name
+            if (!skill.folder) {
+                skill.folder = SkillStore.folderName(skill.name);
+                if (!onDisk.has(skill.folder)) {
+                    await this.writeFile(skill);
+                    skills.push(skill);
+                    continue;
+                }
+            }
+            // Removed on disk
+            if (!onDisk.has(skill.folder)) continue;
+            skills.push(skill);
+        }
+
+        // Drop-in folders become new skills
+        const known = new Set(skills.map(s => s.folder));
+        onDisk.forEach((_, folder) => {
+            if (known.has(folder)) return;
+            skills.push({ id: `${Date.now()}-${folder}`, name: folder, description: '', instructions: '', enabled: true, folder });
+        });
+
+        this.resources.clear();
+        for (const skill of skills) {
+            const disk = onDisk.get(skill.folder!);
+            if (!disk) continue;
+            skill.name = disk.name || skill.folder!;
+            skill.description = disk.description || '';
+            skill.keywords = disk.keywords;
+            skill.instructions = disk.instructions;
+            skill.resources = disk.files;
+            // Text files mentioned in SKILL.md are sent along with the instructions
+            const referenced: SkillResource[] = [];
+            for (const file of disk.files.filter(f => TEXT_RESOURCE.test(f) && disk.instructions.includes(f))) {
+                const content = await adapter.read(`${this.dir}/${skill.folder}/${file}`);
+                referenced.push({ path: file, content: content.substring(0, MAX_RESOURCE_CHARS) });
+            }
+            this.resources.set(skill.id, referenced);
+        }
+
+        settings.skills = skills;
+        await this.plugin.saveData(settings);
+        this.signature = await this.computeSignature();
+    }
+
+    private async writeFile(skill: Skill) {
+        const adapter = this.plugin.app.vault.adapter;
+        const folder = `${this.dir}/${skill.folder}`;
+        if (!(await adapter.exists(folder))) await adapter.mkdir(folder);
+        await adapter.write(`${folder}/${SKILL_FILE}`, SkillStore.serialize(skill));
+    }
+
+    // Writes settings edits back to SKILL.md. With rename, a renamed skill takes its
+    // folder, including bundled resources, along to the new name; without, the
+    // folder is kept so typing a name does not rename it on every keystroke.
+    write(skill: Skill, rename = true): Promise<void> {
+        return this.enqueue(() => this.writeNow(skill, rename));
+    }
+
+    private async writeNow(skill: Skill, rename: boolean) {
+        const adapter = this.plugin.app.vault.adapter;
+        const target = rename || !skill.folder ? SkillStore.folderName(skill.name) : skill.folder;
+        if (skill.folder && skill.folder !== target) {
+            const from = `${this.dir}/${skill.folder}`;
+            const to = `${this.dir}/${target}`;
+            if (await adapter.exists(to)) {
+                throw new Error(`A skill folder named "${target}" already exists`);
+            }
+            if (await adapter.exists(from)) await adapter.rename(from, to);
+        }
+        skill.folder = target;
+        if (!(await adapter.exists(this.dir))) await adapter.mkdir(this.dir);
+        await this.writeFile(skill);
+        await this.plugin.saveData(this.plugin.settings);
+        this.signature = await this.computeSignature();
+    }
+
+    // Debounced write for edits typed into the settings tab; the folder is renamed
+    // only by an explicit write()
+    scheduleWrite(skill: Skill) {
+        const existing = this.pendingWrites.get(skill.id);
+        if (existing) window.clearTimeout(existing);
+        this.pendingWrites.set(skill.id, window.setTimeout(async () => {
+            this.pendingWrites.delete(skill.id);
+            try {
+                await this.write(skill, false);
+            } catch (e: any) {
+                new Notice(`Could not save skill "${skill.name}": ${e.message}`);
+            }
+        }, 1000));
+    }
+
+    // Removes the skill folder and the skill from settings
+    delete(skill: Skill): Promise<void> {
+        const pending = this.pendingWrites.get(skill.id);
+        if (pending) window.clearTimeout(pending);
+        this.pendingWrites.delete(skill.id);
+        return this.enqueue(async () => {
+            const adapter = this.plugin.app.vault.adapter;
+            const folder = `${this.dir}/${skill.folder || SkillStore.folderName(skill.name)}`;
+            if (await adapter.exists(folder)) await adapter.rmdir(folder, true);
+            this.resources.delete(skill.id);
+            const settings = this.plugin.settings;
+            settings.skills = settings.skills.filter(s => s.id !== skill.id);
+            await this.plugin.saveData(settings);
+            this.signature = await this.computeSignature();
+        });
+    }
+}
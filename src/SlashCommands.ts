@@ -0,0 +1,122 @@
+import { prepareFuzzySearch } from "obsidian";
+
+export interface SlashSuggestion {
+    command: string;
+    usage: string; // Shown in the popup, e.g. "/model <id>"
+    description: string;
+    builtin: boolean;
+}
+
+// Handled by the terminal itself without calling a model
+export const BUILTIN_COMMANDS: SlashSuggestion[] = [
+    { command: '/clear', usage: '/clear', description: 'Clear the messages of this session', builtin: true },
+    { command: '/model', usage: '/model <id>', description: 'Switch model, or list the models of the current provider', builtin: true },
+    { command: '/provider', usage: '/provider <id>', description: 'Switch provider, or list the providers', builtin: true },
+    { command: '/attach', usage: '/attach <path>', description: 'Attach a note, image or PDF by path or name', builtin: true },
+    { command: '/detach', usage: '/detach [name]', description: 'Remove one attachment, or all of them', builtin: true },
+    { command: '/context', usage: '/context', description: 'Show what will be sent with the next message', builtin: true },
+    { command: '/usage', usage: '/usage', description: 'Show token usage and estimated costs', builtin: true },
+    { command: '/help', usage: '/help', description: 'List the available commands', builtin: true }
+];
+
+const MAX_SUGGESTIONS = 8;
+
+// Autocomplete popup shown above the terminal input while a slash command is typed
+export class SlashCommandPopup {
+    private inputEl: HTMLTextAreaElement;
+    private getSuggestions: () => SlashSuggestion[];
+    private popupEl: HTMLElement;
+    private matches: SlashSuggestion[] = [];
+    private selected = 0;
+
+    constructor(containerEl: HTMLElement, inputEl: HTMLTextAreaElement, getSuggestions: () => SlashSuggestion[]) {
+        this.inputEl = inputEl;
+        this.getSuggestions = getSuggestions;
+        this.popupEl = containerEl.createDiv({ cls: "slash-popup" });
+        this.popupEl.hide();
+
+        this.inputEl.addEventListener("input", () => this.update());
+        this.inputEl.addEventListener("blur", () => setTimeout(() => this.close(), 150));
+    }
+
+    get isOpen(): boolean {
+        return this.matches.length > 0;
+    }
+
+    // Only while the first word is being typed
+    update() {
+        const value = this.inputEl.value;
+        const match = value.match(/^\/(\S*)$/);
+        if (!match) {
+            this.close();
+            return;
+        }
+        const query = match[1];
+        const search = prepareFuzzySearch(query);
+        this.matches = this.getSuggestions()
+            .map(s => ({ s, result: query ? search(`${s.command} ${s.description}`) : { score: 0 } }))
+            .filter(m => m.result !== null)
+            .sort((a, b) => b.result!.score - a.result!.score)
+            .slice(0, MAX_SUGGESTIONS)
+            .map(m => m.s);
+        this.selected = 0;
+        this.render();
+    }
+
+    close() {
+        this.matches = [];
+        this.popupEl.hide();
+    }
+
+    // Returns true when the key was consumed by the popup
+    handleKeydown(e: KeyboardEvent): boolean {
+        if (!this.isOpen) return false;
+        switch (e.key) {
+            case "ArrowDown":
+                this.selected = (this.selected + 1) % this.matches.length;
+                break;
+            case "ArrowUp":
+                this.selected = (this.selected - 1 + this.matches.length) % this.matches.length;
+                break;
+            case "Enter":
+            case "Tab":
+                // A complete command is sent as typed
+                if (e.key === "Enter" && this.matches[this.selected].command === this.inputEl.value) return false;
+                this.choose(this.matches[this.selected]);
+                break;
+            case "Escape":
+                this.close();
+                break;
+            default:
+                return false;
+        }
+        e.preventDefault();
+        this.render();
+        return true;
+    }
+
+    private choose(suggestion: SlashSuggestion) {
+        this.inputEl.value = `${suggestion.command} `;
+        this.close();
+        this.inputEl.focus();
+    }
+
+    private render() {
+        this.popupEl.empty();
+        if (!this.isOpen) {
+            this.popupEl.hide();
+            return;
+        }
+        this.popupEl.show();
+        this.matches.forEach((suggestion, index) => {
+            const item = this.popupEl.createDiv({ cls: `slash-popup-item ${index === this.selected ? 'selected' : ''}` });
+            item.createSpan({ text: suggestion.usage, cls: "slash-popup-command" });
+            item.createSpan({ text: suggestion.description, cls: "slash-popup-desc" });
+            item.addEventListener("mousedown", (e) => {
+                e.preventDefault();
+                this.choose(suggestion);
+            });
+        });
+        this.popupEl.children[this.selected]?.scrollIntoView({ block: "nearest" });
+    }
+}
@@ -0,0 +1,73 @@
+import { App, MarkdownView, moment } from "obsidian";
+
+export interface TemplateContext {
+    input: string; // The user's message without the slash command
+    selection?: string; // Defaults to the selection in the active or last-used editor
+    extra?: Record<string, string>; // Caller-specific variables, e.g. {{title}} for note templates
+}
+
+export interface ExpandResult {
+    text: string;
+    errors: string[];
+}
+
+export const TEMPLATE_VARIABLES_HELP = "Variables: {{date}}, {{date:YYYYMMDD}}, {{time}}, {{time:HH:mm:ss}}, {{input}}, {{selection}}, " +
+    "{{activeNote.title}}, {{activeNote.path}}, {{activeNote.frontmatter.<key>}}, {{vault.name}}";
+
+// Expands {{variable}} placeholders in custom command prompts
+export class TemplateVariables {
+
+    static getSelection(app: App): string {
+        const active = app.workspace.activeEditor?.editor;
+        if (active?.somethingSelected()) return active.getSelection();
+        const view = app.workspace.getLeavesOfType('markdown')
+            .map(leaf => leaf.view as MarkdownView)
+            .find(v => v.editor.somethingSelected());
+        return view ? view.editor.getSelection() : '';
+    }
+
+    // Unknown variables are reported as errors and left in place; known variables
+    // without a value (no active note, missing frontmatter key) expand to nothing
+    static expand(app: App, template: string, context: TemplateContext): ExpandResult {
+        const errors: string[] = [];
+        const file = app.workspace.getActiveFile();
+        const text = template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (match, expression: string) => {
+            const colon = expression.indexOf(':');
+            const name = colon === -1 ? expression : expression.substring(0, colon).trim();
+            const arg = colon === -1 ? '' : expression.substring(colon + 1).trim();
+
+            if (context.extra && colon === -1 && name in context.extra) {
+                return context.extra[name];
+            }
+
+            switch (name) {
+                case 'date':
+                    return moment().format(arg || 'YYYY-MM-DD');
+                case 'time':
+                    return moment().format(arg || 'HH:mm');
+                case 'input':
+                    return context.input;
+                case 'selection':
+                    return context.selection !== undefined ? context.selection : this.getSelection(app);
+                case 'activeNote.title':
+                    return file ? file.basename : '';
+                case 'activeNote.path':
+                    return file ? file.path : '';
+                case 'vault.name':
+                    return app.vault.getName();
+            }
+
+            if (name.startsWith('activeNote.frontmatter.') && colon === -1) {
+                const key = name.substring('activeNote.frontmatter.'.length);
+                const frontmatter = file ? app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+                const value = frontmatter ? frontmatter[key] : undefined;
+                if (value === undefined || value === null) return '';
+                return Array.isArray(value) ? value.join(', ') : String(value);
+            }
+
+            errors.push(`Unknown variable ${match}`);
+            return match;
+        });
+        return { text, errors };
+    }
+}
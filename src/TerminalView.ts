@@ -1,39 +1,92 @@
-import { ItemView, WorkspaceLeaf, Notice, TFile, TFolder, ButtonComponent, Menu } from "obsidian";
-import AITerminalPlugin, { CustomCommand, PROVIDER_MODELS } from "../main";
-import { AIService } from "./AIService";
-import { NoteSuggester, MultiNoteSuggester, FolderSuggester } from "./NoteSuggester";
+import { ItemView, WorkspaceLeaf, Notice, TFile, TFolder, ButtonComponent, Menu, MarkdownRenderer, Component, Keymap, MarkdownView, Editor } from "obsidian";
+import AITerminalPlugin, { CustomCommand, ProviderId, ChatMessage, ChatSession, SavedAttachment, AttachmentType } from "../main";
+import { AIMessage, MediaKind, TokenUsage } from "./AIService";
+import { NoteSuggester, MultiNoteSuggester, FolderSuggester, TagSuggester, LinkNeighborhoodModal, SectionSuggester, MediaSuggester } from "./NoteSuggester";
+import { NoteQuery } from "./NoteQuery";
+import { SessionSuggester, TextInputModal } from "./SessionModals";
+import { ContextBuilder, ContextSource } from "./ContextBuilder";
+import { SearchResult, VaultChunk } from "./VaultIndex";
+import { MediaAttachments, MAX_MEDIA_BYTES } from "./MediaAttachments";
+import { NoteEdits, EDIT_INSTRUCTIONS } from "./NoteEdits";
+import { EditReviewModal } from "./EditReviewModal";
+import { TemplateVariables } from "./TemplateVariables";
+import { BUILTIN_COMMANDS, SlashCommandPopup, SlashSuggestion } from "./SlashCommands";
+import { Agent, AgentStep, AGENT_INSTRUCTIONS } from "./Agent";
+import { VaultTools } from "./VaultTools";
+import { RequestRunner, RequestCancelledError } from "./RequestRunner";
+import { MessageUsage, UsageTracker } from "./UsageTracker";
+import { UsageStatsModal } from "./UsageStatsModal";
 
 export const TERMINAL_VIEW_TYPE = "ai-terminal-view";
 
-interface ChatMessage {
-    role: 'user' | 'ai' | 'system';
-    content: string;
-}
-
 interface AttachmentItem {
-    type: 'file' | 'folder';
-    name: string; // Basename for file, Folder name for folder
+    type: AttachmentType;
+    name: string; // Basename for file, Folder name for folder, label for live groups
     path: string; // Full path
     items: TFile[]; // The actual files
     count: number;
+    missing?: string[]; // Saved paths that no longer resolve (deleted or renamed)
+    query?: string; // Tag, frontmatter condition or search text of a live group; link depth for 'links'; heading or block id
+    occurrence?: number; // Which of several identical headings a section attachment refers to
+    excerpt?: string; // Snapshot of an editor selection
 }
 
+const PARTIAL_ATTACHMENT_ICONS: Record<string, string> = {
+    section: "§",
+    block: "🔖",
+    selection: "✂️"
+};
+
+const LIVE_ATTACHMENT_ICONS: Record<string, string> = {
+    tag: "🏷️",
+    frontmatter: "🧾",
+    search: "🔍"
+};
+
 export class TerminalView extends ItemView {
     plugin: AITerminalPlugin;
     attachments: AttachmentItem[] = [];
     chatHistory: ChatMessage[] = [];
-
+    currentSessionId: string | null = null;
+    // "Ask the vault" mode: retrieve relevant passages for every question
+    askVault: boolean = false;
+    retrievedChunks: SearchResult[] = [];
+    // Edit mode: the model may propose edits to the attached notes
+    editMode: boolean = false;
+    agentMode: boolean = false;
+    // Text of the AI response currently being streamed, null when idle
+    streamingContent: string | null = null;
+    // The request in flight; the send button stops it while set
+    activeRequest: RequestRunner | null = null;
+
+    // Whole notes only; section, block and selection attachments are read separately
     get pinnedNotes(): TFile[] {
         const unique = new Map<string, TFile>();
         this.attachments.forEach(att => {
-            att.items.forEach(f => unique.set(f.path, f));
+            if (this.isPartialAttachment(att)) return;
+            att.items.filter(f => f.extension === 'md').forEach(f => unique.set(f.path, f));
+        });
+        return Array.from(unique.values());
+    }
+
+    // Attached images and PDFs, followed by those embedded in attached notes
+    get mediaFiles(): TFile[] {
+        const unique = new Map<string, TFile>();
+        this.attachments.forEach(att => {
+            if (this.isPartialAttachment(att)) return;
+            att.items.filter(f => MediaAttachments.isMedia(f)).forEach(f => unique.set(f.path, f));
         });
+        MediaAttachments.getEmbeds(this.app, this.pinnedNotes).forEach(f => unique.set(f.path, f));
         return Array.from(unique.values());
     }
 
+    get partialAttachments(): AttachmentItem[] {
+        return this.attachments.filter(att => this.isPartialAttachment(att));
+    }
+
     // UI State
-    currentProvider: 'gemini' | 'openai' | 'claude' = 'gemini';
-    currentModel: string = 'gemini-2.0-flash-exp';
+    currentProvider: ProviderId = 'gemini';
+    currentModel: string = 'gemini-2.5-flash';
 
     // UI Elements
     private headerEl: HTMLElement;
@@ -43,6 +96,11 @@ export class TerminalView extends ItemView {
     private inputAreaEl: HTMLElement;
     private sendBtn: HTMLButtonElement;
     private modelSelectEl: HTMLSelectElement;
+    private slashPopup: SlashCommandPopup;
+    private streamingTextEl: HTMLElement | null = null;
+    // Owns rendered markdown children; replaced on every chat re-render
+    private messageComponent: Component | null = null;
+    private rawMessages: WeakSet<ChatMessage> = new WeakSet();
 
     constructor(leaf: WorkspaceLeaf, plugin: AITerminalPlugin) {
         super(leaf);
@@ -81,6 +139,16 @@ export class TerminalView extends ItemView {
             this.inputAreaEl = contentEl.createDiv({ cls: "ai-terminal-input-area" });
             this.initializeInputArea();
 
+            this.restoreActiveSession();
+            this.refreshLiveAttachments().then(() => this.refreshContext());
+
+            // Providers registered later by other plugins show up as new tabs
+            this.register(this.plugin.providers.onChange(() => {
+                this.refreshStyle();
+                this.refreshHeader();
+                this.updateModelSelector();
+            }));
+
             // Initial Render of components
             this.refreshStyle();
             this.refreshHeader();
@@ -91,10 +159,30 @@ export class TerminalView extends ItemView {
 
             // Auto-attach currently active note only when user interacts (clicks) on the chat area
             // This excludes buttons, inputs, and header interactions
-            this.chatAreaEl.addEventListener('click', () => {
+            this.chatAreaEl.addEventListener('click', (e) => {
+                const link = (e.target as HTMLElement).closest('a.internal-link') as HTMLAnchorElement | null;
+                if (link) {
+                    e.preventDefault();
+                    const linktext = link.getAttribute('data-href') || link.getAttribute('href') || '';
+                    this.app.workspace.openLinkText(linktext, '', Keymap.isModEvent(e));
+                    return;
+                }
                 this.attachActiveNote();
             });
 
+            this.chatAreaEl.addEventListener('mouseover', (e) => {
+                const link = (e.target as HTMLElement).closest('a.internal-link') as HTMLAnchorElement | null;
+                if (!link) return;
+                this.app.workspace.trigger('hover-link', {
+                    event: e,
+                    source: TERMINAL_VIEW_TYPE,
+                    hoverParent: this,
+                    targetEl: link,
+                    linktext: link.getAttribute('data-href') || link.getAttribute('href') || '',
+                    sourcePath: ''
+                });
+            });
+
             // Remove global listener to prevent spamming context
             // this.registerEvent(
             //     this.app.workspace.on('active-leaf-change', () => {
@@ -120,6 +208,48 @@ export class TerminalView extends ItemView {
         this.modelSelectEl.addEventListener('change', (e) => {
             this.currentModel = (e.target as HTMLSelectElement).value;
             new Notice(`Model set to: ${this.currentModel}`);
+            this.refreshContext();
+            this.persistSession();
+        });
+
+        const askVaultBtn = topBar.createEl("button", {
+            cls: "ask-vault-toggle",
+            text: "🔎 Ask the vault",
+            attr: { "aria-label": "Search the vault for relevant notes with every question" }
+        });
+        askVaultBtn.addEventListener('click', () => {
+            this.askVault = !this.askVault;
+            askVaultBtn.toggleClass("active", this.askVault);
+            if (this.askVault) {
+                this.plugin.vaultIndex.ensureBuilt()
+                    .then(() => this.refreshContext())
+                    .catch(e => this.addSystemMessage(`Could not index the vault: ${e.message}`));
+            } else {
+                this.retrievedChunks = [];
+            }
+            this.refreshContext();
+        });
+
+        const editModeBtn = topBar.createEl("button", {
+            cls: "ask-vault-toggle",
+            text: "✏️ Edit mode",
+            attr: { "aria-label": "Let the AI propose edits to the attached notes" }
+        });
+        editModeBtn.addEventListener('click', () => {
+            this.editMode = !this.editMode;
+            editModeBtn.toggleClass("active", this.editMode);
+            new Notice(this.editMode ? "Edit mode on: the AI can propose edits to attached notes" : "Edit mode off");
+        });
+
+        const agentModeBtn = topBar.createEl("button", {
+            cls: "ask-vault-toggle",
+            text: "🤖 Agent",
+            attr: { "aria-label": "Let the AI use vault tools to search, read and write notes" }
+        });
+        agentModeBtn.addEventListener('click', () => {
+            this.agentMode = !this.agentMode;
+            agentModeBtn.toggleClass("active", this.agentMode);
+            new Notice(this.agentMode ? "Agent mode on: the AI can use vault tools" : "Agent mode off");
         });
 
         // 2. Main Input Grid
@@ -139,10 +269,11 @@ export class TerminalView extends ItemView {
                 item.setTitle("Attach Notes")
                     .setIcon("file-text")
                     .onClick(() => {
-                        const currentFiles = this.attachments.filter(a => a.type === 'file').flatMap(a => a.items);
+                        const isNote = (a: AttachmentItem) => a.type === 'file' && a.items.every(f => f.extension === 'md');
+                        const currentFiles = this.attachments.filter(isNote).flatMap(a => a.items);
 
                         new MultiNoteSuggester(this.app, currentFiles, (files) => {
-                            this.attachments = this.attachments.filter(a => a.type !== 'file');
+                            this.attachments = this.attachments.filter(a => !isNote(a));
 
                             files.forEach(f => {
                                 this.attachments.push({
@@ -155,6 +286,7 @@ export class TerminalView extends ItemView {
                             });
 
                             this.refreshContext();
+                            this.persistSession();
                             new Notice(`Attached ${files.length} notes`);
                             setTimeout(() => this.inputEl?.focus(), 100);
                         }).open();
@@ -170,7 +302,7 @@ export class TerminalView extends ItemView {
 
                             const collectFiles = (folder: TFolder) => {
                                 folder.children.forEach(child => {
-                                    if (child instanceof TFile && child.extension === 'md') {
+                                    if (child instanceof TFile && (child.extension === 'md' || MediaAttachments.isMedia(child))) {
                                         filesToAdd.push(child);
                                     } else if (child instanceof TFolder) {
                                         collectFiles(child);
@@ -190,15 +322,101 @@ export class TerminalView extends ItemView {
                                     count: filesToAdd.length
                                 });
                                 this.refreshContext();
-                                new Notice(`Attached folder "${folder.name}" (${filesToAdd.length} notes)`);
+                                this.persistSession();
+                                new Notice(`Attached folder "${folder.name}" (${filesToAdd.length} files)`);
                             } else {
-                                new Notice(`No markdown notes found in "${folder.name}"`);
+                                new Notice(`No notes, images or PDFs found in "${folder.name}"`);
                             }
                             setTimeout(() => this.inputEl?.focus(), 100);
                         }).open();
                     });
             });
 
+            menu.addItem((item) => {
+                item.setTitle("Attach Image or PDF")
+                    .setIcon("image")
+                    .onClick(() => {
+                        new MediaSuggester(this.app, (file) => {
+                            this.attachFile(file);
+                            setTimeout(() => this.inputEl?.focus(), 100);
+                        }).open();
+                    });
+            });
+
+            menu.addItem((item) => {
+                item.setTitle("Attach Section or Block")
+                    .setIcon("heading")
+                    .onClick(() => {
+                        new NoteSuggester(this.app, (file) => {
+                            new SectionSuggester(this.app, file, (section) => {
+                                this.attachments.push({
+                                    type: section.type,
+                                    name: `${file.basename} > ${section.label}`,
+                                    path: file.path,
+                                    items: [file],
+                                    count: 1,
+                                    query: section.id,
+                                    occurrence: section.occurrence
+                                });
+                                this.refreshContext();
+                                this.persistSession();
+                                new Notice(`Attached: ${file.basename} > ${section.label}`);
+                                setTimeout(() => this.inputEl?.focus(), 100);
+                            }).open();
+                        }).open();
+                    });
+            });
+
+            menu.addItem((item) => {
+                item.setTitle("Attach Selection")
+                    .setIcon("text-cursor-input")
+                    .onClick(() => this.attachSelection());
+            });
+
+            menu.addItem((item) => {
+                item.setTitle("Attach with Links")
+                    .setIcon("git-fork")
+                    .onClick(() => {
+                        new NoteSuggester(this.app, (root) => this.openLinkNeighborhood(root)).open();
+                    });
+            });
+
+            menu.addSeparator();
+
+            menu.addItem((item) => {
+                item.setTitle("Attach by Tag")
+                    .setIcon("tag")
+                    .onClick(() => {
+                        new TagSuggester(this.app, (tag) => {
+                            this.addLiveAttachment('tag', tag, `#${tag}`);
+                        }).open();
+                    });
+            });
+
+            menu.addItem((item) => {
+                item.setTitle("Attach by Frontmatter")
+                    .setIcon("list")
+                    .onClick(() => {
+                        new TextInputModal(this.app, 'Frontmatter filter (e.g. type: Analysis)', '', (condition) => {
+                            if (!NoteQuery.parseFrontmatterCondition(condition)) {
+                                new Notice('Use the form "key: value"');
+                                return;
+                            }
+                            this.addLiveAttachment('frontmatter', condition, condition);
+                        }).open();
+                    });
+            });
+
+            menu.addItem((item) => {
+                item.setTitle("Attach by Search")
+                    .setIcon("search")
+                    .onClick(() => {
+                        new TextInputModal(this.app, 'Attach notes containing', '', (query) => {
+                            this.addLiveAttachment('search', query, `"${query}"`);
+                        }).open();
+                    });
+            });
+
             menu.showAtMouseEvent(e);
         });
 
@@ -210,6 +428,7 @@ export class TerminalView extends ItemView {
                 rows: "1"
             }
         }) as HTMLTextAreaElement;
+        this.slashPopup = new SlashCommandPopup(inputWrapper, this.inputEl, () => this.getSlashSuggestions());
 
         // Send Button
         this.sendBtn = mainInput.createEl("button", {
@@ -228,10 +447,14 @@ export class TerminalView extends ItemView {
         // Send message function
         const sendMessage = async () => {
             const text = this.inputEl.value.trim();
-            if (!text) return;
+            if (!text || this.activeRequest) return;
+
+            if (this.runBuiltinCommand(text)) {
+                this.inputEl.value = "";
+                this.inputEl.style.height = "auto";
+                return;
+            }
 
-            // Add User Message
-            this.chatHistory.push({ role: 'user', content: text });
             this.inputEl.value = "";
             this.inputEl.style.height = "auto";
 
@@ -240,21 +463,26 @@ export class TerminalView extends ItemView {
             this.sendBtn.disabled = false;
             if (this.inputEl) this.inputEl.focus();
 
-            this.refreshChat();
-
-            await this.processCommand(text);
+            await this.sendUserMessage(text);
         };
 
         // Send on Enter (Shift+Enter for new line)
         this.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
             if (e.isComposing) return;
+            if (this.slashPopup.handleKeydown(e)) return;
             if (e.key === "Enter" && !e.shiftKey) {
                 e.preventDefault();
                 sendMessage();
             }
         });
 
-        this.sendBtn.addEventListener("click", sendMessage);
+        this.sendBtn.addEventListener("click", () => {
+            if (this.activeRequest) {
+                this.activeRequest.cancel();
+            } else {
+                sendMessage();
+            }
+        });
 
         // Initial focus
         setTimeout(() => {
@@ -262,8 +490,36 @@ export class TerminalView extends ItemView {
         }, 50);
     }
 
+    async onClose() {
+        if (this.activeRequest) this.activeRequest.cancel();
+    }
+
+    async sendUserMessage(text: string) {
+        if (this.activeRequest) {
+            new Notice("Wait for the current response or stop it first");
+            return;
+        }
+        this.chatHistory.push({ role: 'user', content: text });
+        this.refreshChat();
+        await this.processCommand(text);
+    }
+
+    // Entry point for custom commands run from the command palette or a hotkey
+    async runCustomCommand(cmd: CustomCommand, selection: string, file: TFile | null) {
+        if (selection) {
+            await this.sendUserMessage(`${cmd.command} ${selection}`);
+            return;
+        }
+        if (!file) {
+            new Notice("Open a note or select some text first");
+            return;
+        }
+        this.attachFile(file);
+        await this.sendUserMessage(`${cmd.command} ${file.basename}`);
+    }
+
     getProviderModels(): {id: string, name: string}[] {
-        return PROVIDER_MODELS[this.currentProvider];
+        return this.plugin.getModels(this.currentProvider);
     }
 
     updateModelSelector() {
@@ -278,19 +534,23 @@ export class TerminalView extends ItemView {
             });
             if (this.currentModel === m.id) opt.selected = true;
         });
+
+        // Keep a model restored from a session selectable even if it was retired
+        if (this.currentModel && !models.some(m => m.id === this.currentModel)) {
+            const opt = this.modelSelectEl.createEl("option", {
+                value: this.currentModel,
+                text: `${this.currentModel} (missing)`
+            });
+            opt.selected = true;
+        }
     }
 
     refreshStyle() {
         if (!this.contentEl) return;
-        this.contentEl.removeClass("ui-style-gemini", "ui-style-chatgpt", "ui-style-claude");
+        this.plugin.providers.getAll().forEach(p => this.contentEl.removeClass(`ui-style-${p.styleClass}`));
 
-        // Map provider to style class
-        const styleMap = {
-            'gemini': 'gemini',
-            'openai': 'chatgpt',
-            'claude': 'claude'
-        };
-        this.contentEl.addClass(`ui-style-${styleMap[this.currentProvider]}`);
+        const provider = this.plugin.providers.get(this.currentProvider);
+        if (provider) this.contentEl.addClass(`ui-style-${provider.styleClass}`);
     }
 
     refreshHeader() {
@@ -299,11 +559,7 @@ export class TerminalView extends ItemView {
 
         const tabsContainer = this.headerEl.createDiv({ cls: "provider-tabs" });
 
-        const providers = [
-            { id: 'gemini', label: 'Gemini' },
-            { id: 'openai', label: 'ChatGPT' },
-            { id: 'claude', label: 'Claude' }
-        ];
+        const providers = this.plugin.providers.getAll();
 
         providers.forEach(p => {
             const tab = tabsContainer.createEl("button", {
@@ -312,16 +568,80 @@ export class TerminalView extends ItemView {
                 attr: { "data-provider": p.id }
             });
             // Use standard event listener
-            tab.addEventListener('click', () => {
-                this.currentProvider = p.id as 'gemini' | 'openai' | 'claude';
-                const models = this.getProviderModels();
-                this.currentModel = models.length > 0 ? models[0].id : '';
+            tab.addEventListener('click', () => this.switchProvider(p.id));
+        });
 
-                this.refreshStyle();
-                this.refreshHeader();
-                this.updateModelSelector();
-            });
+        const session = this.getCurrentSession();
+        const sessionBtn = this.headerEl.createEl("button", {
+            cls: "session-switcher-btn",
+            text: `${session ? session.name : "New session"} ▾`,
+            attr: { "aria-label": "Chat sessions" }
+        });
+        sessionBtn.addEventListener('click', (e) => this.openSessionMenu(e));
+    }
+
+    switchProvider(providerId: ProviderId, modelId?: string) {
+        this.currentProvider = providerId;
+        const models = this.getProviderModels();
+        this.currentModel = modelId || (models.length > 0 ? models[0].id : '');
+
+        this.refreshStyle();
+        this.refreshHeader();
+        this.updateModelSelector();
+        this.refreshContext();
+        this.persistSession();
+    }
+
+    openSessionMenu(e: MouseEvent) {
+        const menu = new Menu();
+        const session = this.getCurrentSession();
+
+        menu.addItem((item) => {
+            item.setTitle("New session")
+                .setIcon("plus")
+                .onClick(() => this.startNewSession());
         });
+
+        menu.addItem((item) => {
+            item.setTitle("Switch session...")
+                .setIcon("history")
+                .setDisabled(this.plugin.settings.sessions.length === 0)
+                .onClick(() => {
+                    new SessionSuggester(this.app, this.plugin.settings.sessions, (chosen) => {
+                        this.loadSession(chosen);
+                    }).open();
+                });
+        });
+
+        if (session) {
+            menu.addSeparator();
+
+            menu.addItem((item) => {
+                item.setTitle("Rename session")
+                    .setIcon("pencil")
+                    .onClick(() => {
+                        new TextInputModal(this.app, "Rename session", session.name, async (name) => {
+                            session.name = name;
+                            await this.plugin.saveSettings();
+                            this.refreshHeader();
+                        }).open();
+                    });
+            });
+
+            menu.addItem((item) => {
+                item.setTitle("Duplicate session")
+                    .setIcon("copy")
+                    .onClick(() => this.duplicateSession(session));
+            });
+
+            menu.addItem((item) => {
+                item.setTitle("Delete session")
+                    .setIcon("trash")
+                    .onClick(() => this.deleteSession(session));
+            });
+        }
+
+        menu.showAtMouseEvent(e);
     }
 
     refreshContext() {
@@ -332,15 +652,22 @@ export class TerminalView extends ItemView {
         if (this.inputEl) this.inputEl.disabled = false;
         if (this.sendBtn) this.sendBtn.disabled = false;
 
-        if (this.attachments.length > 0) {
+        if (this.attachments.length > 0 || this.askVault) {
             this.contextPanelEl.style.display = 'block';
             const contextPanel = this.contextPanelEl.createDiv({ cls: "context-panel" });
             const contextHeader = contextPanel.createDiv({ cls: "context-panel-header" });
 
             const contextTitle = contextHeader.createDiv({ cls: "context-title" });
             const totalNotes = this.pinnedNotes.length; // Use getter
+            const totalExcerpts = this.partialAttachments.length;
+            const media = this.mediaFiles;
+            const counts = [`${totalNotes} notes`];
+            if (totalExcerpts > 0) counts.push(`${totalExcerpts} excerpts`);
+            if (media.length > 0) counts.push(`${media.length} images/PDFs`);
             contextTitle.createEl("span", { text: "📎", cls: "context-icon" });
-            contextTitle.createEl("span", { text: `${totalNotes} notes attached` });
+            contextTitle.createEl("span", { text: `${counts.join(', ')} attached` });
+            const budgetEl = contextTitle.createEl("span", { cls: "context-budget" });
+            this.updateContextBudget(budgetEl);
 
             const contextActions = contextHeader.createDiv({ cls: "context-actions" });
 
@@ -351,18 +678,45 @@ export class TerminalView extends ItemView {
 
                 const fileInfo = item.createDiv({ cls: "context-file-info" });
 
-                if (att.type === 'folder') {
-                    fileInfo.createEl("span", { text: "📂", cls: "file-icon" });
+                if (this.isPartialAttachment(att)) {
+                    fileInfo.createEl("span", { text: PARTIAL_ATTACHMENT_ICONS[att.type], cls: "file-icon" });
+                    fileInfo.createEl("span", { text: att.name, cls: "file-name" });
+                    if (att.excerpt) item.title = att.excerpt.substring(0, 300);
+                } else if (att.type !== 'file') {
+                    const icon = att.type === 'folder' ? "📂" : att.type === 'links' ? "🕸️" : LIVE_ATTACHMENT_ICONS[att.type];
+                    fileInfo.createEl("span", { text: icon, cls: "file-icon" });
                     fileInfo.createEl("span", {
                         text: `${att.name} (${att.count} notes)`,
                         cls: "file-name folder-group"
                     });
+                    if (this.isLiveAttachment(att)) {
+                        fileInfo.createEl("span", { text: "live", cls: "context-live-badge" });
+                    }
                     item.title = att.items.map(f => f.basename).join(", ");
+                    if (att.type === 'links') {
+                        const root = this.app.vault.getAbstractFileByPath(att.path);
+                        if (root instanceof TFile) {
+                            item.addClass("editable");
+                            item.addEventListener('click', () => this.openLinkNeighborhood(root, att));
+                        }
+                    }
                 } else {
-                    fileInfo.createEl("span", { text: "📄", cls: "file-icon" });
+                    const file = att.items[0];
+                    const icon = !file || !MediaAttachments.isMedia(file) ? "📄"
+                        : MediaAttachments.getKind(file) === 'pdf' ? "📕" : "🖼️";
+                    fileInfo.createEl("span", { text: icon, cls: "file-icon" });
                     fileInfo.createEl("span", { text: att.name, cls: "file-name" });
                 }
 
+                if (att.missing && att.missing.length > 0) {
+                    item.addClass("missing");
+                    fileInfo.createEl("span", {
+                        text: att.type === 'file' || this.isPartialAttachment(att) ? "⚠ missing" : `⚠ ${att.missing.length} missing`,
+                        cls: "context-missing-marker",
+                        attr: { title: `Deleted or renamed since this session was saved:\n${att.missing.join("\n")}` }
+                    });
+                }
+
                 const removeBtn = item.createEl("button", {
                     cls: "context-remove-btn",
                     attr: { "aria-label": "Remove" }
@@ -375,13 +729,109 @@ export class TerminalView extends ItemView {
 
                     this.attachments.splice(index, 1);
                     this.refreshContext();
+                    this.persistSession();
                 });
             });
+
+            const unsupported = this.getUnsupportedMedia(media, this.currentProvider, this.currentModel);
+            if (unsupported.length > 0) {
+                const warning = contextList.createDiv({ cls: "context-media-warning" });
+                const reason = this.getModelModalities(this.currentProvider, this.currentModel)
+                    ? "can't read" : "is not known to read";
+                warning.setText(`⚠ ${this.currentModel} ${reason} images or PDFs; ${unsupported.length} will not be sent`);
+                warning.title = unsupported.map(f => f.path).join("\n");
+            }
+
+            if (this.askVault) {
+                const vaultItem = contextList.createDiv({ cls: "context-item" });
+                const vaultInfo = vaultItem.createDiv({ cls: "context-file-info" });
+                vaultInfo.createEl("span", { text: "🔎", cls: "file-icon" });
+                const index = this.plugin.vaultIndex;
+                const status = !index.ready
+                    ? "Ask the vault (indexing...)"
+                    : this.retrievedChunks.length > 0
+                        ? `Ask the vault (${this.retrievedChunks.length} passages from last question)`
+                        : "Ask the vault (passages are picked per question)";
+                vaultInfo.createEl("span", { text: status, cls: "file-name folder-group" });
+
+                this.retrievedChunks.forEach(({ chunk }) => {
+                    const sourceItem = contextList.createDiv({ cls: "context-item retrieved-source" });
+                    const sourceInfo = sourceItem.createDiv({ cls: "context-file-info" });
+                    sourceInfo.createEl("span", { text: "↳", cls: "file-icon" });
+                    sourceInfo.createEl("span", { text: this.getChunkLabel(chunk), cls: "file-name" });
+                    sourceItem.title = chunk.text.substring(0, 300);
+                    sourceItem.addEventListener('click', () => {
+                        this.app.workspace.openLinkText(chunk.path, '', false);
+                    });
+                });
+            }
         } else {
             this.contextPanelEl.style.display = 'none';
         }
     }
 
+    // Undefined when the model's input types are unknown (local models or ids not in any list)
+    getModelModalities(provider: ProviderId, modelId: string): MediaKind[] | undefined {
+        return this.plugin.getModels(provider).find(m => m.id === modelId)?.modalities;
+    }
+
+    // Models with unknown input types are treated as text-only
+    getUnsupportedMedia(files: TFile[], provider: ProviderId, modelId: string): TFile[] {
+        const modalities = this.getModelModalities(provider, modelId) || [];
+        return files.filter(f => modalities.indexOf(MediaAttachments.getKind(f)) === -1);
+    }
+
+    getContextWindow(provider: ProviderId, modelId: string): number {
+        const impl = this.plugin.providers.get(provider);
+        const model = this.plugin.getModels(provider).find(m => m.id === modelId);
+        if (model) return model.contextWindow;
+        return impl?.defaultContextWindow || ContextBuilder.getContextWindow(modelId);
+    }
+
+    async readContextSources(): Promise<ContextSource[]> {
+        const sources: ContextSource[] = [];
+        for (const file of this.pinnedNotes) {
+            // Edits refer to notes by path
+            sources.push({ name: this.editMode ? file.path : file.basename, content: await this.app.vault.cachedRead(file) });
+        }
+        for (const att of this.partialAttachments) {
+            const content = await this.readPartialAttachment(att);
+            if (content !== null) sources.push({ name: att.name, content });
+        }
+        if (this.askVault) {
+            this.retrievedChunks.forEach(({ chunk }) => {
+                sources.push({ name: this.getChunkLabel(chunk), content: chunk.text });
+            });
+        }
+        return sources;
+    }
+
+    getChunkLabel(chunk: VaultChunk): string {
+        return chunk.heading ? `${chunk.path} > ${chunk.heading}` : chunk.path;
+    }
+
+    // Show how much of the current model's context window the attachments use
+    async updateContextBudget(budgetEl: HTMLElement) {
+        try {
+            const sources = await this.readContextSources();
+            const history = this.buildConversation().map(m => m.content).join('\n');
+            const result = ContextBuilder.build(sources, ContextBuilder.getBudget(this.getContextWindow(this.currentProvider, this.currentModel), history));
+            if (!budgetEl.isConnected) return;
+
+            budgetEl.setText(`≈ ${ContextBuilder.formatTokens(result.usedTokens)} / ${ContextBuilder.formatTokens(result.budgetTokens)} tokens`);
+            const excerpted = result.notes.filter(n => n.truncated);
+            if (excerpted.length > 0) {
+                budgetEl.addClass("over-budget");
+                budgetEl.appendText(` · ${excerpted.length} excerpted`);
+                budgetEl.title = excerpted
+                    .map(n => `${n.name}: ${ContextBuilder.formatTokens(n.tokens)} of ${ContextBuilder.formatTokens(n.originalTokens)}`)
+                    .join('\n');
+            }
+        } catch (e) {
+            console.error("AI Terminal: failed to estimate context budget", e);
+        }
+    }
+
     refreshChat() {
         if (!this.chatAreaEl) return;
         this.chatAreaEl.empty();
@@ -389,23 +839,48 @@ export class TerminalView extends ItemView {
         if (this.inputEl) this.inputEl.disabled = false;
         if (this.sendBtn) this.sendBtn.disabled = false;
 
-        if (this.chatHistory.length === 0) {
+        this.streamingTextEl = null;
+        if (this.messageComponent) this.removeChild(this.messageComponent);
+        this.messageComponent = this.addChild(new Component());
+
+        if (this.chatHistory.length === 0 && this.streamingContent === null) {
             const emptyState = this.chatAreaEl.createDiv({ cls: "empty-state" });
             emptyState.createEl("div", { text: "👋", cls: "empty-icon" });
             emptyState.createEl("h3", { text: "Hello, Friend" });
             emptyState.createEl("p", { text: "I'm ready to help you with your notes." });
         } else {
+            // The last user message when no answer followed it (cancelled or failed)
+            const lastUser = this.chatHistory.map(m => m.role).lastIndexOf('user');
+            const unanswered = lastUser !== -1 && !this.chatHistory.slice(lastUser).some(m => m.role === 'ai')
+                ? this.chatHistory[lastUser]
+                : null;
+
             this.chatHistory.forEach((msg) => {
                 const msgWrapper = this.chatAreaEl.createDiv({ cls: `message-wrapper ${msg.role}` });
 
                 if (msg.role === 'user') {
                     const msgBubble = msgWrapper.createDiv({ cls: "message-bubble user-message" });
                     msgBubble.createDiv({ text: msg.content, cls: "message-text" });
+                    if (msg === unanswered && !this.activeRequest) {
+                        const resendBtn = msgWrapper.createEl("button", {
+                            cls: "resend-btn",
+                            text: "↻ Resend",
+                            attr: { "aria-label": "Send this message again" }
+                        });
+                        resendBtn.addEventListener('click', () => this.resend(msg));
+                    }
                 } else if (msg.role === 'ai') {
                     const msgBubble = msgWrapper.createDiv({ cls: "message-bubble ai-message" });
 
                     const msgHeader = msgBubble.createDiv({ cls: "message-header" });
                     msgHeader.createDiv({ text: "AI", cls: "message-label" });
+                    if (msg.skills && msg.skills.length > 0) {
+                        msgHeader.createDiv({
+                            text: `🧩 ${msg.skills.join(', ')}`,
+                            cls: "message-skills",
+                            attr: { title: "Skills applied to this response" }
+                        });
+                    }
 
                     const createNoteBtn = msgHeader.createEl("button", {
                         cls: "create-note-btn",
@@ -415,129 +890,570 @@ export class TerminalView extends ItemView {
 
                     createNoteBtn.addEventListener('click', async (e) => {
                         e.stopPropagation();
-                        await this.createNoteFromResponse(msg.content);
+                        const attachments = (msg.attachments || [])
+                            .map(path => this.app.vault.getAbstractFileByPath(path))
+                            .filter((f): f is TFile => f instanceof TFile);
+                        await this.plugin.createNoteFromResponse(msg.content, {
+                            command: msg.command,
+                            model: msg.model,
+                            attachments
+                        });
                     });
 
-                    msgBubble.createDiv({ text: msg.content, cls: "message-text" });
+                    if (NoteEdits.parse(msg.content).length > 0) {
+                        const reviewBtn = msgHeader.createEl("button", {
+                            cls: "create-note-btn",
+                            text: "✏️",
+                            attr: { "aria-label": "Review proposed edits" }
+                        });
+                        reviewBtn.addEventListener('click', (e) => {
+                            e.stopPropagation();
+                            this.reviewEdits(msg).catch(err => this.addSystemMessage(`Could not review the proposed edits: ${err.message}`));
+                        });
+                    }
+
+                    const rawToggleBtn = msgHeader.createEl("button", {
+                        cls: "raw-toggle-btn",
+                        text: "</>",
+                        attr: { "aria-label": "Toggle raw markdown" }
+                    });
+
+                    if (msg.steps && msg.steps.length > 0) this.renderAgentSteps(msgBubble, msg.steps);
+
+                    const textEl = msgBubble.createDiv({ cls: "message-text" });
+                    this.renderAIMessageText(msg, textEl);
+
+                    if (msg.usage) {
+                        msgBubble.createDiv({ text: UsageTracker.format(msg.usage), cls: "message-usage" });
+                    }
+
+                    rawToggleBtn.addEventListener('click', (e) => {
+                        e.stopPropagation();
+                        if (this.rawMessages.has(msg)) {
+                            this.rawMessages.delete(msg);
+                        } else {
+                            this.rawMessages.add(msg);
+                        }
+                        this.renderAIMessageText(msg, textEl);
+                    });
                 } else if (msg.role === 'system') {
                     const systemMsg = msgWrapper.createDiv({ cls: "system-message" });
                     systemMsg.createDiv({ text: msg.content, cls: "system-text" });
+                    if (msg.steps && msg.steps.length > 0) this.renderAgentSteps(systemMsg, msg.steps);
                 }
             });
 
+            if (this.streamingContent !== null) {
+                const msgWrapper = this.chatAreaEl.createDiv({ cls: "message-wrapper ai" });
+                const msgBubble = msgWrapper.createDiv({ cls: "message-bubble ai-message streaming" });
+                const msgHeader = msgBubble.createDiv({ cls: "message-header" });
+                msgHeader.createDiv({ text: "AI", cls: "message-label" });
+                this.streamingTextEl = msgBubble.createDiv({ text: this.streamingContent, cls: "message-text" });
+            }
+
             setTimeout(() => {
                 this.chatAreaEl.scrollTop = this.chatAreaEl.scrollHeight;
             }, 100);
         }
     }
 
+    // Each tool call is a collapsed row that expands to its arguments and result
+    renderAgentSteps(containerEl: HTMLElement, steps: AgentStep[]) {
+        const stepsEl = containerEl.createDiv({ cls: "agent-steps" });
+        const icons: Record<string, string> = { running: '⏳', done: '✓', declined: '⊘', error: '⚠' };
+        steps.forEach(step => {
+            const details = stepsEl.createEl("details", { cls: `agent-step ${step.status}` });
+            const target = step.args.path || step.args.query || '';
+            details.createEl("summary", { text: `${icons[step.status]} ${step.tool}${target ? ` · ${target}` : ''}` });
+            details.createEl("pre", { text: JSON.stringify(step.args, null, 2), cls: "agent-step-args" });
+            if (step.result) details.createEl("pre", { text: step.result, cls: "agent-step-result" });
+        });
+    }
+
+    renderAIMessageText(msg: ChatMessage, textEl: HTMLElement) {
+        textEl.empty();
+        const showRaw = this.rawMessages.has(msg);
+        textEl.toggleClass("markdown-rendered", !showRaw);
+        textEl.toggleClass("raw-source", showRaw);
+        if (showRaw) {
+            textEl.setText(msg.content);
+            return;
+        }
+        MarkdownRenderer.render(this.app, msg.content, textEl, '', this.messageComponent || this)
+            .then(() => this.addCodeCopyButtons(textEl))
+            .catch(e => {
+                console.error("AI Terminal: markdown render failed", e);
+                textEl.setText(msg.content);
+            });
+    }
+
+    addCodeCopyButtons(containerEl: HTMLElement) {
+        containerEl.querySelectorAll('pre').forEach(pre => {
+            pre.querySelectorAll('.copy-code-button').forEach(btn => btn.remove());
+            const code = pre.querySelector('code');
+            const copyBtn = pre.createEl("button", { cls: "ai-terminal-copy-code", text: "Copy" });
+            copyBtn.addEventListener('click', async (e) => {
+                e.stopPropagation();
+                await navigator.clipboard.writeText((code || pre).textContent || '');
+                copyBtn.setText("Copied!");
+                setTimeout(() => copyBtn.setText("Copy"), 1500);
+            });
+        });
+    }
+
+    // Append streamed text to the live AI bubble without re-rendering the whole chat
+    // Drops the notices after an unanswered message and sends it again
+    async resend(msg: ChatMessage) {
+        if (this.activeRequest) return;
+        const idx = this.chatHistory.indexOf(msg);
+        if (idx === -1) return;
+        this.chatHistory.splice(idx + 1);
+        this.refreshChat();
+        await this.processCommand(msg.content);
+    }
+
+    private setGenerating(generating: boolean) {
+        if (!this.sendBtn) return;
+        this.sendBtn.innerHTML = generating ? "■" : "↑";
+        this.sendBtn.toggleClass("stop-btn", generating);
+        this.sendBtn.setAttr("aria-label", generating ? "Stop generating" : "Send message");
+    }
+
+    appendStreamingDelta(delta: string) {
+        if (this.streamingContent === null) {
+            this.streamingContent = '';
+            this.refreshChat();
+        }
+        this.streamingContent += delta;
+        if (this.streamingTextEl) {
+            this.streamingTextEl.setText(this.streamingContent);
+            this.chatAreaEl.scrollTop = this.chatAreaEl.scrollHeight;
+        }
+    }
+
+    getCurrentSession(): ChatSession | undefined {
+        if (!this.currentSessionId) return undefined;
+        return this.plugin.settings.sessions.find(s => s.id === this.currentSessionId);
+    }
+
+    // Write the current conversation into its session, creating the session on
+    // the first message so empty chats are never stored
+    persistSession() {
+        let session = this.getCurrentSession();
+        if (!session) {
+            const firstUserMessage = this.chatHistory.find(m => m.role === 'user');
+            if (!firstUserMessage) return;
+            const now = Date.now();
+            session = {
+                id: now.toString(),
+                name: firstUserMessage.content.substring(0, 40),
+                messages: [],
+                provider: this.currentProvider,
+                modelId: this.currentModel,
+                attachments: [],
+                createdAt: now,
+                updatedAt: now
+            };
+            this.plugin.settings.sessions.push(session);
+            this.currentSessionId = session.id;
+            this.refreshHeader();
+        }
+
+        // Whole messages, so skill labels, model, command and usage survive a reload
+        session.messages = this.chatHistory.map(m => ({ ...m }));
+        session.provider = this.currentProvider;
+        session.modelId = this.currentModel;
+        session.attachments = this.attachments.map(att => ({
+            type: att.type,
+            name: att.name,
+            path: att.path,
+            // A missing section or block still lives in its note
+            paths: this.isPartialAttachment(att) ? (att.path ? [att.path] : []) : [...att.items.map(f => f.path), ...(att.missing || [])],
+            query: att.query,
+            occurrence: att.occurrence,
+            excerpt: att.excerpt
+        }));
+        session.updatedAt = Date.now();
+        this.plugin.settings.activeSessionId = session.id;
+        this.plugin.saveSettings();
+    }
+
+    resolveAttachment(saved: SavedAttachment): AttachmentItem {
+        const items: TFile[] = [];
+        const missing: string[] = [];
+        saved.paths.forEach(path => {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (file instanceof TFile) {
+                items.push(file);
+            } else {
+                missing.push(path);
+            }
+        });
+        return {
+            type: saved.type,
+            name: saved.name,
+            path: saved.path,
+            items,
+            count: items.length,
+            // Live groups are re-evaluated, so vanished members are not reported
+            missing: this.isLiveAttachment(saved) ? [] : missing,
+            query: saved.query,
+            occurrence: saved.occurrence,
+            excerpt: saved.excerpt
+        };
+    }
+
+    isPartialAttachment(att: { type: AttachmentType }): boolean {
+        return att.type in PARTIAL_ATTACHMENT_ICONS;
+    }
+
+    // Resolve a section/block against the note's current headings and blocks.
+    // Returns null when the heading, block or note is gone.
+    async readPartialAttachment(att: AttachmentItem): Promise<string | null> {
+        if (att.type === 'selection') return att.excerpt || null;
+        const file = att.items[0];
+        if (!file || !att.query) return null;
+        return att.type === 'section'
+            ? NoteQuery.readSection(this.app, file, att.query, att.occurrence)
+            : NoteQuery.readBlock(this.app, file, att.query);
+    }
+
+    // Attach the selected text of the given (or most recently active) editor
+    attachSelection(editor?: Editor, file?: TFile | null) {
+        if (!editor) {
+            const active = this.app.workspace.activeEditor;
+            const fallback = this.app.workspace.getLeavesOfType('markdown')
+                .map(leaf => leaf.view as MarkdownView)
+                .find(view => view.editor.somethingSelected());
+            if (active?.editor?.somethingSelected()) {
+                editor = active.editor;
+                file = active.file;
+            } else if (fallback) {
+                editor = fallback.editor;
+                file = fallback.file;
+            }
+        }
+        if (!editor || !editor.somethingSelected()) {
+            new Notice("Select some text in a note first");
+            return;
+        }
+
+        const from = editor.getCursor('from').line + 1;
+        const to = editor.getCursor('to').line + 1;
+        const lines = from === to ? `line ${from}` : `lines ${from}-${to}`;
+        const noteName = file ? file.basename : "Untitled";
+        this.attachments.push({
+            type: 'selection',
+            name: `${noteName} > Selection (${lines})`,
+            path: file ? file.path : '',
+            items: file ? [file] : [],
+            count: 1,
+            excerpt: editor.getSelection()
+        });
+        this.refreshContext();
+        this.persistSession();
+        new Notice(`Attached selection from ${noteName}`);
+    }
+
+    isLiveAttachment(att: { type: AttachmentType }): boolean {
+        return att.type in LIVE_ATTACHMENT_ICONS;
+    }
+
+    async evaluateLiveAttachment(type: AttachmentType, query: string): Promise<TFile[]> {
+        if (type === 'tag') return NoteQuery.byTag(this.app, query);
+        if (type === 'frontmatter') return NoteQuery.byFrontmatter(this.app, query);
+        if (type === 'search') return NoteQuery.bySearch(this.app, query);
+        return [];
+    }
+
+    // Re-run the queries of live groups so newly matching notes are included, and
+    // mark sections and blocks whose heading or block id is gone
+    async refreshLiveAttachments() {
+        for (const att of this.attachments) {
+            if (this.isPartialAttachment(att)) {
+                att.missing = await this.readPartialAttachment(att) === null ? [att.name] : [];
+                continue;
+            }
+            if (!this.isLiveAttachment(att) || !att.query) continue;
+            att.items = await this.evaluateLiveAttachment(att.type, att.query);
+            att.count = att.items.length;
+        }
+    }
+
+    // Pick notes around a hub note; editing an existing group keeps its position
+    openLinkNeighborhood(root: TFile, existing?: AttachmentItem) {
+        const depth = existing ? parseInt(existing.query || '1', 10) : 1;
+        let excluded: string[] = [];
+        if (existing) {
+            const selected = new Set(existing.items.map(f => f.path));
+            excluded = NoteQuery.linkNeighborhood(this.app, root, depth, true, true)
+                .map(n => n.file.path)
+                .filter(path => !selected.has(path));
+        }
+
+        new LinkNeighborhoodModal(this.app, root, depth, excluded, (selection) => {
+            const item: AttachmentItem = {
+                type: 'links',
+                name: `${root.basename} + links`,
+                path: root.path,
+                items: selection.files,
+                count: selection.files.length,
+                query: String(selection.depth)
+            };
+            const idx = existing ? this.attachments.indexOf(existing) : -1;
+            if (idx !== -1) {
+                this.attachments[idx] = item;
+            } else {
+                this.attachments.push(item);
+            }
+            this.refreshContext();
+            this.persistSession();
+            new Notice(`Attached ${root.basename} with ${selection.files.length - 1} linked notes`);
+            setTimeout(() => this.inputEl?.focus(), 100);
+        }).open();
+    }
+
+    async addLiveAttachment(type: AttachmentType, query: string, name: string) {
+        const files = await this.evaluateLiveAttachment(type, query);
+        this.attachments.push({
+            type,
+            name,
+            path: query,
+            items: files,
+            count: files.length,
+            query
+        });
+        this.refreshContext();
+        this.persistSession();
+        new Notice(`Attached ${name} (${files.length} notes, updated on every message)`);
+        setTimeout(() => this.inputEl?.focus(), 100);
+    }
+
+    restoreActiveSession() {
+        const { sessions, activeSessionId } = this.plugin.settings;
+        const session = sessions.find(s => s.id === activeSessionId);
+        if (session) this.applySession(session);
+    }
+
+    applySession(session: ChatSession) {
+        this.currentSessionId = session.id;
+        this.chatHistory = session.messages.map(m => ({ ...m }));
+        this.currentProvider = session.provider;
+        this.currentModel = session.modelId;
+        this.attachments = session.attachments.map(att => this.resolveAttachment(att));
+    }
+
+    refreshAll() {
+        this.refreshStyle();
+        this.refreshHeader();
+        this.refreshContext();
+        this.updateModelSelector();
+        this.refreshChat();
+    }
+
+    loadSession(session: ChatSession) {
+        this.applySession(session);
+        this.plugin.settings.activeSessionId = session.id;
+        this.plugin.saveSettings();
+        this.refreshAll();
+        this.refreshLiveAttachments().then(() => this.refreshContext());
+    }
+
+    startNewSession() {
+        this.currentSessionId = null;
+        this.chatHistory = [];
+        this.attachments = [];
+        this.plugin.settings.activeSessionId = '';
+        this.plugin.saveSettings();
+        this.refreshAll();
+    }
+
+    async duplicateSession(session: ChatSession) {
+        const now = Date.now();
+        const copy: ChatSession = {
+            ...session,
+            id: now.toString(),
+            name: `${session.name} (copy)`,
+            messages: session.messages.map(m => ({ ...m })),
+            attachments: session.attachments.map(a => ({ ...a, paths: [...a.paths] })),
+            createdAt: now,
+            updatedAt: now
+        };
+        this.plugin.settings.sessions.push(copy);
+        this.loadSession(copy);
+        new Notice(`Duplicated session: ${session.name}`);
+    }
+
+    async deleteSession(session: ChatSession) {
+        const { settings } = this.plugin;
+        settings.sessions = settings.sessions.filter(s => s.id !== session.id);
+        if (this.currentSessionId === session.id) {
+            this.startNewSession();
+        } else {
+            await this.plugin.saveSettings();
+        }
+        new Notice(`Deleted session: ${session.name}`);
+    }
+
     attachActiveNote() {
         try {
             const activeFile = this.app.workspace.getActiveFile();
-            if (activeFile && activeFile.extension === 'md') {
-                // Check if already in 'file' attachments
-                // Also check if covered by folder? (optional)
-                // Let's just avoid duplicate 'file' attachment items for the same path.
-                const exists = this.attachments.some(a => a.type === 'file' && a.path === activeFile.path);
-
-                if (!exists) {
-                    this.attachments.push({
-                        type: 'file',
-                        name: activeFile.basename,
-                        path: activeFile.path,
-                        items: [activeFile],
-                        count: 1
-                    });
-                    new Notice(`Attached: ${activeFile.basename}`);
-                    this.refreshContext();
-                }
+            if (activeFile && (activeFile.extension === 'md' || MediaAttachments.isMedia(activeFile))) {
+                this.attachFile(activeFile);
             }
         } catch (e) {
             console.error("Auto-attach error", e);
         }
     }
 
-    async createNoteFromResponse(content: string) {
-        try {
-            const defaultFolder = this.plugin.settings.defaultFolder || '';
-            const now = new Date();
-            const dateStr = now.toISOString().slice(0, 10).replace(/-/g, '');
-            const timeStr = now.toISOString().slice(0, 16).replace('T', ' ');
-            
-            let noteTitle = '';
-            let finalContent = content;
-            
-            // Check if content has YAML frontmatter with title
-            const yamlMatch = content.match(/^---\n([\s\S]*?)\n---/);
-            if (yamlMatch) {
-                const yamlContent = yamlMatch[1];
-                const titleMatch = yamlContent.match(/title:\s*"?([^"\n]+)"?/);
-                if (titleMatch) {
-                    noteTitle = titleMatch[1].trim();
+    // Attach a single note, image or PDF unless it is already attached on its own
+    attachFile(file: TFile) {
+        const exists = this.attachments.some(a => a.type === 'file' && a.path === file.path);
+        if (exists) return;
+
+        this.attachments.push({
+            type: 'file',
+            name: file.extension === 'md' ? file.basename : file.name,
+            path: file.path,
+            items: [file],
+            count: 1
+        });
+        new Notice(`Attached: ${file.extension === 'md' ? file.basename : file.name}`);
+        this.refreshContext();
+        this.persistSession();
+    }
+
+    async reviewEdits(msg: ChatMessage) {
+        const edits = NoteEdits.parse(msg.content);
+        if (edits.length === 0) return;
+        const hashes = msg.noteHashes || (msg.noteHashes = {});
+        const contents = new Map<string, string>();
+        const hunks = await NoteEdits.check(this.app, edits, hashes, contents);
+        new EditReviewModal(this.app, hunks, hashes, contents, () => this.persistSession()).open();
+    }
+
+    getSlashSuggestions(): SlashSuggestion[] {
+        const custom = this.plugin.settings.customCommands.map(cmd => ({
+            command: cmd.command,
+            usage: cmd.command,
+            description: `${cmd.name} · ${cmd.modelId}`,
+            builtin: false
+        }));
+        // Custom commands shadow built-ins of the same name
+        const shadowed = new Set(custom.map(c => c.command));
+        return [...custom, ...BUILTIN_COMMANDS.filter(b => !shadowed.has(b.command))];
+    }
+
+    private addSystemMessage(content: string) {
+        this.chatHistory.push({ role: 'system', content });
+        this.refreshChat();
+    }
+
+    // Returns true when the input was a built-in command, which never reaches a model
+    runBuiltinCommand(input: string): boolean {
+        if (this.findCommandBySlash(input)) return false;
+        const match = input.match(/^(\/\S+)\s*([\s\S]*)$/);
+        if (!match || !BUILTIN_COMMANDS.some(b => b.command === match[1])) return false;
+        const arg = match[2].trim();
+
+        switch (match[1]) {
+            case '/clear':
+                this.chatHistory = [];
+                this.retrievedChunks = [];
+                this.refreshChat();
+                this.refreshContext();
+                this.persistSession();
+                break;
+
+            case '/model': {
+                if (!arg) {
+                    const models = this.getProviderModels().map(m => m.id === this.currentModel ? `${m.id} (current)` : m.id);
+                    this.addSystemMessage(`Models for ${this.currentProvider}: ${models.join(', ')}`);
+                    break;
                 }
-                finalContent = content;
-            } else {
-                // No YAML frontmatter - extract from first heading or first line
-                const headingMatch = content.match(/^#\s+(.+)$/m);
-                if (headingMatch) {
-                    noteTitle = headingMatch[1].trim();
-                } else {
-                    const firstLine = content.split('\n')[0].substring(0, 50);
-                    noteTitle = firstLine.replace(/[#"\\/]/g, '').trim();
+                // Prefer the current provider, then any provider that lists the model
+                const owner = this.getProviderModels().some(m => m.id === arg)
+                    ? this.currentProvider
+                    : this.plugin.providers.getAll().map(p => p.id).find(id => this.plugin.getModels(id).some(m => m.id === arg));
+                if (!owner) {
+                    this.addSystemMessage(`Unknown model "${arg}". Type /model to list models.`);
+                    break;
                 }
-                
-                // Add YAML frontmatter if not present
-                finalContent = `---
-title: "${noteTitle} ${dateStr}"
-tags: []
-aliases: []
-created: "${timeStr}"
-type: ["Note"]
-status: "작성완료"
-priority: "Medium"
-source: "AI Terminal"
-related: []
-keywords: []
-summary: ""
----
-
-${content}`;
-                noteTitle = `${noteTitle} ${dateStr}`;
-            }
-            
-            // Add date suffix if not already present
-            if (!noteTitle.match(/\d{8}$/)) {
-                noteTitle = `${noteTitle} ${dateStr}`;
-            }
-            
-            noteTitle = noteTitle || `AI Response ${dateStr}`;
-            const sanitizedTitle = noteTitle.replace(/[\\/:*?"<>|]/g, '-');
-            const folderPath = defaultFolder ? `${defaultFolder}/` : '';
-            const fullPath = `${folderPath}${sanitizedTitle}.md`;
-
-            if (defaultFolder) {
-                const folderExists = this.app.vault.getAbstractFileByPath(defaultFolder);
-                if (!folderExists) {
-                    await this.app.vault.createFolder(defaultFolder);
+                this.switchProvider(owner, arg);
+                new Notice(`Model set to: ${arg}`);
+                break;
+            }
+
+            case '/provider': {
+                const providers = this.plugin.providers.getAll();
+                const provider = providers.find(p => p.id === arg.toLowerCase() || p.label.toLowerCase() === arg.toLowerCase());
+                if (!provider) {
+                    const list = providers.map(p => p.id === this.currentProvider ? `${p.id} (current)` : p.id).join(', ');
+                    this.addSystemMessage(arg ? `Unknown provider "${arg}". Providers: ${list}` : `Providers: ${list}`);
+                    break;
                 }
+                this.switchProvider(provider.id);
+                new Notice(`Provider set to: ${provider.name}`);
+                break;
             }
 
-            let finalPath = fullPath;
-            let counter = 1;
-            while (this.app.vault.getAbstractFileByPath(finalPath)) {
-                const baseName = sanitizedTitle;
-                finalPath = `${folderPath}${baseName} ${counter}.md`;
-                counter++;
+            case '/attach': {
+                const file = this.app.vault.getAbstractFileByPath(arg) || this.app.metadataCache.getFirstLinkpathDest(arg, '');
+                if (!(file instanceof TFile) || !(file.extension === 'md' || MediaAttachments.isMedia(file))) {
+                    this.addSystemMessage(arg ? `No note, image or PDF found at "${arg}"` : "Usage: /attach <path>");
+                    break;
+                }
+                this.attachFile(file);
+                break;
             }
 
-            const file = await this.app.vault.create(finalPath, finalContent);
-            new Notice(`Note created: ${file.basename}`);
-            const leaf = this.app.workspace.getLeaf(false);
-            await leaf.openFile(file);
+            case '/detach': {
+                if (!arg) {
+                    this.attachments = [];
+                    this.retrievedChunks = [];
+                } else {
+                    const before = this.attachments.length;
+                    this.attachments = this.attachments.filter(a => a.name !== arg && a.path !== arg);
+                    if (this.attachments.length === before) {
+                        this.addSystemMessage(`Nothing attached as "${arg}"`);
+                        break;
+                    }
+                }
+                this.refreshContext();
+                this.persistSession();
+                break;
+            }
 
-        } catch (e: any) {
-            new Notice(`Failed to create note: ${e.message}`);
+            case '/context':
+                this.describeContext().catch(e => this.addSystemMessage(`Could not read the context: ${e.message}`));
+                break;
+
+            case '/usage':
+                new UsageStatsModal(this.plugin, this.chatHistory).open();
+                break;
+
+            case '/help': {
+                const lines = this.getSlashSuggestions().map(s => `${s.usage}: ${s.description}`);
+                this.addSystemMessage(lines.join('\n'));
+                break;
+            }
         }
+        return true;
+    }
+
+    async describeContext() {
+        const sources = await this.readContextSources();
+        const history = this.buildConversation().map(m => m.content).join('\n');
+        const result = ContextBuilder.build(sources, ContextBuilder.getBudget(this.getContextWindow(this.currentProvider, this.currentModel), history));
+        const lines = [`${this.currentProvider} / ${this.currentModel}: ≈ ${ContextBuilder.formatTokens(result.usedTokens)} of ${ContextBuilder.formatTokens(result.budgetTokens)} tokens`];
+        result.notes.forEach(n => {
+            lines.push(n.truncated
+                ? `- ${n.name}: ${ContextBuilder.formatTokens(n.tokens)} of ${ContextBuilder.formatTokens(n.originalTokens)} (excerpt)`
+                : `- ${n.name}: ${ContextBuilder.formatTokens(n.tokens)}`);
+        });
+        this.mediaFiles.forEach(f => lines.push(`- ${f.path} (${MediaAttachments.getKind(f)})`));
+        if (lines.length === 1) lines.push("Nothing attached.");
+        this.addSystemMessage(lines.join('\n'));
     }
 
     findCommandBySlash(input: string): CustomCommand | undefined {
@@ -550,56 +1466,236 @@ ${content}`;
         return undefined;
     }
 
-    async processCommand(input: string) {
-        let contextText = "";
-        for (const file of this.pinnedNotes) {
-            const content = await this.app.vault.read(file);
-            contextText += `\n=== NOTE: ${file.basename} ===\n${content.substring(0, 10000)}...\n`;
+    // Convert chat history into provider-neutral turns. Transient system entries
+    // are dropped, slash commands are stripped and consecutive same-role turns are
+    // merged so every API sees a strictly alternating conversation.
+    buildConversation(): AIMessage[] {
+        const messages: AIMessage[] = [];
+        this.chatHistory.forEach(msg => {
+            if (msg.role === 'system') return;
+            const role = msg.role === 'ai' ? 'assistant' : 'user';
+            let content = msg.content;
+            if (role === 'user') {
+                const cmd = this.findCommandBySlash(content);
+                if (cmd) content = content.slice(cmd.command.length).trim() || content;
+            }
+            const last = messages[messages.length - 1];
+            if (last && last.role === role) {
+                last.content += `\n\n${content}`;
+            } else {
+                messages.push({ role, content });
+            }
+        });
+        // Conversations must open with a user turn
+        while (messages.length > 0 && messages[0].role !== 'user') {
+            messages.shift();
         }
+        return messages;
+    }
 
+    async processCommand(input: string) {
         const customCommand = this.findCommandBySlash(input);
         
         let provider = this.currentProvider;
         let modelId = this.currentModel;
         let systemPrompt = "You are an expert knowledge synthesizer. Output in Markdown.";
-        let userMessage = input;
 
         if (customCommand) {
             provider = customCommand.provider;
             modelId = customCommand.modelId;
-            systemPrompt = customCommand.promptTemplate;
-            userMessage = input.slice(customCommand.command.length).trim() || input;
+            const expanded = TemplateVariables.expand(this.app, customCommand.promptTemplate, {
+                input: input.slice(customCommand.command.length).trim()
+            });
+            if (expanded.errors.length > 0) {
+                this.chatHistory.push({ role: 'system', content: `Error in ${customCommand.command} prompt: ${expanded.errors.join(', ')}` });
+                this.refreshChat();
+                this.persistSession();
+                return;
+            }
+            systemPrompt = expanded.text;
             new Notice(`Using: ${customCommand.name}`);
         }
 
-        const skillsPrompt = this.plugin.getActiveSkillsPrompt();
-        if (skillsPrompt) {
-            systemPrompt += skillsPrompt;
+        const budget = this.plugin.usage.checkBudget(provider);
+        if (budget) {
+            this.chatHistory.push({ role: 'system', content: budget.block ? `⛔ ${budget.message}; not sent.` : `⚠ ${budget.message}.` });
+            this.refreshChat();
+            this.persistSession();
+            if (budget.block) return;
         }
 
-        const fullPrompt = `Context:\n${contextText}\n\nInstruction:\n${userMessage}`;
+        const messages = this.buildConversation();
+
+        const lastUserTurn = messages.length > 0 ? messages[messages.length - 1].content : input;
+        const skills = this.plugin.getSkillsPrompt(lastUserTurn, customCommand?.skillIds);
+        systemPrompt += skills.prompt;
 
-        this.chatHistory.push({ role: 'system', content: "Generating..." });
+        await this.refreshLiveAttachments();
+        const attachedPaths = this.pinnedNotes.map(f => f.path);
+
+        if (this.editMode) systemPrompt += EDIT_INSTRUCTIONS;
+
+        if (this.agentMode) systemPrompt += AGENT_INSTRUCTIONS;
+
+        const placeholder: ChatMessage = { role: 'system', content: this.askVault ? "Searching vault..." : "Generating..." };
+        const runner = new RequestRunner({
+            timeoutSeconds: this.plugin.settings.requestTimeout,
+            maxRetries: this.plugin.settings.maxRetries,
+            onRetry: (retry, maxRetries, delayMs) => {
+                placeholder.content = `${modelId} is busy, retrying (${retry}/${maxRetries}) in ${Math.ceil(delayMs / 1000)}s…`;
+                this.refreshChat();
+            }
+        });
+        this.activeRequest = runner;
+        this.setGenerating(true);
+
+        this.chatHistory.push(placeholder);
         this.refreshChat();
 
+        const removePlaceholder = () => {
+            const idx = this.chatHistory.indexOf(placeholder);
+            if (idx !== -1) this.chatHistory.splice(idx, 1);
+        };
+
+        // The placeholder is swapped for the live AI bubble on the first token.
+        // Output of an abandoned request arriving late is ignored.
+        // Agent runs make several calls; their usage is added up
+        let usage: TokenUsage | null = null;
+        const onUsage = (reported: TokenUsage) => {
+            usage = {
+                inputTokens: (usage ? usage.inputTokens : 0) + reported.inputTokens,
+                outputTokens: (usage ? usage.outputTokens : 0) + reported.outputTokens
+            };
+        };
+
+        const onDelta = (delta: string) => {
+            if (this.activeRequest !== runner) return;
+            runner.progress();
+            if (this.streamingContent === null) removePlaceholder();
+            this.appendStreamingDelta(delta);
+        };
+
         try {
-            let response = "";
-            const { settings } = this.plugin;
+            if (this.askVault) {
+                await this.plugin.vaultIndex.ensureBuilt();
+                const question = messages.length > 0 ? messages[messages.length - 1].content : input;
+                this.retrievedChunks = this.plugin.vaultIndex.search(question, this.plugin.settings.retrievalTopK);
+                placeholder.content = "Generating...";
+                this.refreshChat();
+            }
 
-            if (provider === 'gemini') {
-                response = await AIService.callGoogle(settings.googleApiKey, modelId, systemPrompt, fullPrompt);
-            } else if (provider === 'openai') {
-                response = await AIService.callOpenAI(settings.openaiApiKey, modelId, systemPrompt, fullPrompt);
-            } else if (provider === 'claude') {
-                response = await AIService.callClaude(settings.claudeApiKey, modelId, systemPrompt, fullPrompt);
+            // Attached notes go into the system prompt once per request instead of being
+            // repeated in every user turn, sized to what the model can actually take
+            const reserved = systemPrompt + messages.map(m => m.content).join('\n');
+            const sources = await this.readContextSources();
+            const context = ContextBuilder.build(sources, ContextBuilder.getBudget(this.getContextWindow(provider, modelId), reserved));
+
+            // Proposed edits are later checked against the notes exactly as they were read here
+            const noteHashes: Record<string, string> = {};
+            if (this.editMode) {
+                const pinned = new Set(this.pinnedNotes.map(f => f.path));
+                sources.filter(s => pinned.has(s.name)).forEach(s => noteHashes[s.name] = NoteEdits.hash(s.content));
+            }
+            if (context.text) {
+                systemPrompt += `\n\nContext:\n${context.text}`;
             }
 
-            this.chatHistory.pop();
-            this.chatHistory.push({ role: 'ai', content: response });
+            // Images and PDFs ride along with the latest user turn
+            const media = this.mediaFiles;
+            const unsupported = this.getUnsupportedMedia(media, provider, modelId);
+            if (unsupported.length > 0) {
+                const reason = this.getModelModalities(provider, modelId)
+                    ? "is text-only for these files" : "is not known to accept images or PDFs";
+                this.chatHistory.splice(this.chatHistory.indexOf(placeholder), 0, {
+                    role: 'system',
+                    content: `⚠ ${modelId} ${reason}, so they were not sent: ${unsupported.map(f => f.name).join(', ')}`
+                });
+            }
+            const sendable = media.filter(f => unsupported.indexOf(f) === -1);
+            const lastTurn = messages[messages.length - 1];
+            if (sendable.length > 0 && lastTurn) {
+                const tooLarge = sendable.filter(f => f.stat.size > MAX_MEDIA_BYTES);
+                if (tooLarge.length > 0) {
+                    new Notice(`Skipped files over ${MAX_MEDIA_BYTES / 1024 / 1024} MB: ${tooLarge.map(f => f.name).join(', ')}`);
+                }
+                lastTurn.media = [];
+                for (const file of sendable.filter(f => tooLarge.indexOf(f) === -1)) {
+                    lastTurn.media.push(await MediaAttachments.load(this.app, file));
+                }
+            }
+
+            const providerImpl = this.plugin.providers.get(provider);
+            if (!providerImpl) throw new Error(`Provider "${provider}" is not available`);
+
+            let response: string;
+            let steps: AgentStep[] = [];
+            if (this.agentMode) {
+                const agent = new Agent(this.app, VaultTools.create(this.plugin));
+                const result = await agent.run({
+                    provider: providerImpl,
+                    model: modelId,
+                    systemPrompt,
+                    messages,
+                    maxSteps: this.plugin.settings.agentMaxSteps,
+                    runner,
+                    onUsage,
+                    onStep: (step, all) => {
+                        placeholder.content = step.status === 'running' ? `Running ${step.tool}...` : "Thinking...";
+                        placeholder.steps = all;
+                        this.refreshChat();
+                    }
+                });
+                response = result.text;
+                steps = result.steps;
+            } else {
+                response = await runner.run(signal => providerImpl.complete({ model: modelId, systemPrompt, messages, onDelta, signal, onUsage }));
+            }
+            if (!response.trim()) throw new Error(`${modelId} returned an empty response`);
+
+            removePlaceholder();
+            const aiMessage: ChatMessage = { role: 'ai', content: response, model: modelId };
+            if (steps.length > 0) aiMessage.steps = steps;
+            if (usage) aiMessage.usage = await this.recordUsage(provider, modelId, usage);
+            if (customCommand) aiMessage.command = customCommand.command;
+            if (attachedPaths.length > 0) aiMessage.attachments = attachedPaths;
+            if (skills.applied.length > 0) aiMessage.skills = skills.applied.map(s => s.name);
+            const proposesEdits = this.editMode && NoteEdits.parse(response).length > 0;
+            if (proposesEdits) aiMessage.noteHashes = noteHashes;
+            this.chatHistory.push(aiMessage);
+            if (proposesEdits) {
+                this.reviewEdits(aiMessage).catch(e => this.addSystemMessage(`Could not review the proposed edits: ${e.message}`));
+            }
         } catch (e: any) {
-            this.chatHistory.pop();
-            this.chatHistory.push({ role: 'system', content: `Error: ${e.message}` });
+            removePlaceholder();
+            if (e instanceof RequestCancelledError) {
+                // Partial output is dropped so the user's message can simply be resent
+                this.chatHistory.push({ role: 'system', content: "Request cancelled.", steps: placeholder.steps });
+            } else {
+                if (this.streamingContent) {
+                    this.chatHistory.push({ role: 'ai', content: this.streamingContent });
+                }
+                // Steps an agent run got through stay visible with the error
+                this.chatHistory.push({ role: 'system', content: `Error: ${e.message}`, steps: placeholder.steps });
+            }
+            // Calls that completed before the failure were still billed
+            if (usage) await this.recordUsage(provider, modelId, usage);
+        } finally {
+            this.activeRequest = null;
+            this.setGenerating(false);
+            this.streamingContent = null;
+            this.refreshChat();
+            this.refreshContext();
+            this.persistSession();
+        }
+    }
+
+    // A failed save still shows the usage under the response
+    private async recordUsage(provider: string, model: string, usage: TokenUsage): Promise<MessageUsage> {
+        try {
+            return await this.plugin.usage.record(provider, model, usage);
+        } catch (e) {
+            console.error("AI Terminal: could not record usage", e);
+            return { ...usage, cost: this.plugin.usage.cost(model, usage) };
         }
-        this.refreshChat();
     }
 }
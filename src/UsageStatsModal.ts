@@ -0,0 +1,106 @@
+import { Modal, moment } from "obsidian";
+import AITerminalPlugin, { ChatMessage } from "../main";
+import { UsageTotals, UsageTracker } from "./UsageTracker";
+
+const DAYS_SHOWN = 30;
+
+// Token usage and estimated cost for the current session, today, this month and recent days
+export class UsageStatsModal extends Modal {
+    private plugin: AITerminalPlugin;
+    private sessionMessages: ChatMessage[];
+
+    constructor(plugin: AITerminalPlugin, sessionMessages: ChatMessage[] = []) {
+        super(plugin.app);
+        this.plugin = plugin;
+        this.sessionMessages = sessionMessages;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        const tracker = this.plugin.usage;
+        contentEl.empty();
+        contentEl.addClass("usage-stats");
+        contentEl.createEl("h3", { text: "Token usage" });
+
+        const today = moment().format('YYYY-MM-DD');
+        const month = moment().format('YYYY-MM');
+        const session = UsageTracker.emptyTotals();
+        this.sessionMessages.forEach(msg => {
+            if (!msg.usage) return;
+            session.inputTokens += msg.usage.inputTokens;
+            session.outputTokens += msg.usage.outputTokens;
+            session.cost += msg.usage.cost || 0;
+            session.requests++;
+        });
+
+        this.renderTable(contentEl, "Summary", ["", "Requests", "Input", "Output", "Cost"], [
+            ["This session", ...this.cells(session)],
+            ["Today", ...this.cells(tracker.totals(day => day === today))],
+            ["This month", ...this.cells(tracker.totals(day => day.startsWith(month)))]
+        ]);
+
+        // This month per provider, with its budget when one is set
+        const byDay = this.plugin.settings.usageByDay;
+        const monthKeys = new Set<string>();
+        Object.keys(byDay).filter(day => day.startsWith(month)).forEach(day => {
+            Object.keys(byDay[day]).forEach(key => monthKeys.add(key));
+        });
+        const providers = new Set<string>();
+        monthKeys.forEach(key => providers.add(UsageTracker.splitKey(key).provider));
+
+        this.renderTable(contentEl, "This month by provider", ["Provider", "Requests", "Input", "Output", "Cost", "Budget"],
+            Array.from(providers).sort().map(provider => {
+                const totals = tracker.totals((day, key) => day.startsWith(month) && UsageTracker.splitKey(key).provider === provider);
+                const cap = this.plugin.settings.budgets[provider];
+                return [
+                    this.plugin.providers.get(provider)?.name || provider,
+                    ...this.cells(totals),
+                    cap ? UsageTracker.formatCost(cap) : "—"
+                ];
+            }));
+
+        this.renderTable(contentEl, "This month by model", ["Model", "Requests", "Input", "Output", "Cost"],
+            Array.from(monthKeys).sort().map(key => [
+                UsageTracker.splitKey(key).model,
+                ...this.cells(tracker.totals((day, k) => day.startsWith(month) && k === key), tracker.getPrice(UsageTracker.splitKey(key).model) !== undefined)
+            ]));
+
+        const days = Object.keys(byDay).sort().reverse().slice(0, DAYS_SHOWN);
+        this.renderTable(contentEl, `Last ${DAYS_SHOWN} days`, ["Day", "Requests", "Input", "Output", "Cost"],
+            days.map(day => [day, ...this.cells(tracker.totals(d => d === day))]));
+
+        contentEl.createEl("p", {
+            text: "Costs are estimates from the price table in settings. Models without a price count tokens only.",
+            cls: "setting-item-description"
+        });
+    }
+
+    private cells(totals: UsageTotals, priced = true): string[] {
+        return [
+            String(totals.requests),
+            UsageTracker.formatTokens(totals.inputTokens),
+            UsageTracker.formatTokens(totals.outputTokens),
+            priced ? UsageTracker.formatCost(totals.cost) : "—"
+        ];
+    }
+
+    private renderTable(containerEl: HTMLElement, title: string, headers: string[], rows: string[][]) {
+        containerEl.createEl("h4", { text: title });
+        if (rows.length === 0) {
+            containerEl.createEl("p", { text: "No usage recorded yet.", cls: "setting-item-description" });
+            return;
+        }
+        const table = containerEl.createEl("table", { cls: "usage-table" });
+        const headRow = table.createEl("thead").createEl("tr");
+        headers.forEach(h => headRow.createEl("th", { text: h }));
+        const body = table.createEl("tbody");
+        rows.forEach(row => {
+            const tr = body.createEl("tr");
+            row.forEach(cell => tr.createEl("td", { text: cell }));
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,168 @@
+import { moment } from "obsidian";
+import AITerminalPlugin from "../main";
+import { TokenUsage } from "./AIService";
+
+// USD per million tokens
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// Usage of one response; cost is null when the model has no price
+export interface MessageUsage extends TokenUsage {
+    cost: number | null;
+}
+
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    cost: number;
+    requests: number;
+}
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetCheck {
+    message: string;
+    block: boolean;
+}
+
+// List prices at the time of writing; editable in settings
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'o3': { input: 2, output: 8 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'claude-opus-4-5': { input: 5, output: 25 },
+    'claude-sonnet-4-5': { input: 3, output: 15 },
+    'claude-haiku-4-5': { input: 1, output: 5 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 }
+};
+
+// "-20250929", "-2024-08-06", "@20250929" or "-latest"
+const DATE_SUFFIX = /^[-@](\d{4}-?\d{2}-?\d{2}|latest)$/;
+
+/**
+ * Records token usage per day in settings.usageByDay, keyed "provider/model", and
+ * prices it with settings.modelPrices. Month totals per provider back the budget caps.
+ */
+export class UsageTracker {
+    private plugin: AITerminalPlugin;
+
+    constructor(plugin: AITerminalPlugin) {
+        this.plugin = plugin;
+    }
+
+    // Fresh copies, so edits in settings never touch the defaults
+    static defaultPrices(): Record<string, ModelPrice> {
+        const prices: Record<string, ModelPrice> = {};
+        Object.keys(DEFAULT_MODEL_PRICES).forEach(id => prices[id] = { ...DEFAULT_MODEL_PRICES[id] });
+        return prices;
+    }
+
+    static emptyTotals(): UsageTotals {
+        return { inputTokens: 0, outputTokens: 0, cost: 0, requests: 0 };
+    }
+
+    static key(provider: string, model: string): string {
+        return `${provider}/${model}`;
+    }
+
+    static splitKey(key: string): { provider: string, model: string } {
+        const slash = key.indexOf('/');
+        return { provider: key.substring(0, slash), model: key.substring(slash + 1) };
+    }
+
+    // Exact id first, then a price key followed only by a date, so snapshots such as
+    // "claude-sonnet-4-5-20250929" or "gpt-4o-2024-08-06" share their family's price
+    // while other variants ("o3-pro", "gpt-4.5-preview") stay unpriced
+    getPrice(model: string): ModelPrice | undefined {
+        const prices = this.plugin.settings.modelPrices;
+        if (prices[model]) return prices[model];
+        const family = Object.keys(prices).find(id =>
+            model.startsWith(id) && DATE_SUFFIX.test(model.substring(id.length)));
+        return family ? prices[family] : undefined;
+    }
+
+    cost(model: string, usage: TokenUsage): number | null {
+        const price = this.getPrice(model);
+        if (!price) return null;
+        return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000000;
+    }
+
+    async record(provider: string, model: string, usage: TokenUsage): Promise<MessageUsage> {
+        const result: MessageUsage = { ...usage, cost: this.cost(model, usage) };
+        const byDay = this.plugin.settings.usageByDay;
+        const day = moment().format('YYYY-MM-DD');
+        const key = UsageTracker.key(provider, model);
+        const bucket = byDay[day] || (byDay[day] = {});
+        const totals = bucket[key] || (bucket[key] = UsageTracker.emptyTotals());
+        totals.inputTokens += usage.inputTokens;
+        totals.outputTokens += usage.outputTokens;
+        totals.cost += result.cost || 0;
+        totals.requests++;
+        await this.plugin.saveData(this.plugin.settings);
+        return result;
+    }
+
+    // Sums the daily buckets whose day and key pass the filter
+    totals(filter: (day: string, key: string) => boolean = () => true): UsageTotals {
+        const byDay = this.plugin.settings.usageByDay;
+        const sum = UsageTracker.emptyTotals();
+        Object.keys(byDay).forEach(day => {
+            Object.keys(byDay[day]).forEach(key => {
+                if (!filter(day, key)) return;
+                const t = byDay[day][key];
+                sum.inputTokens += t.inputTokens;
+                sum.outputTokens += t.outputTokens;
+                sum.cost += t.cost;
+                sum.requests += t.requests;
+            });
+        });
+        return sum;
+    }
+
+    getMonthSpend(provider: string, month: string = moment().format('YYYY-MM')): number {
+        return this.totals((day, key) => day.startsWith(month) && UsageTracker.splitKey(key).provider === provider).cost;
+    }
+
+    // Null while the provider is under its monthly cap or has none
+    checkBudget(provider: string): BudgetCheck | null {
+        const cap = this.plugin.settings.budgets[provider];
+        if (!cap || cap <= 0) return null;
+        const spent = this.getMonthSpend(provider);
+        if (spent < cap) return null;
+        const name = this.plugin.providers.get(provider)?.name || provider;
+        return {
+            message: `${name} has used ${UsageTracker.formatCost(spent)} of its ${UsageTracker.formatCost(cap)} monthly budget`,
+            block: this.plugin.settings.budgetMode === 'block'
+        };
+    }
+
+    static formatCost(cost: number): string {
+        return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+    }
+
+    static formatTokens(tokens: number): string {
+        return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+    }
+
+    static format(usage: MessageUsage): string {
+        const tokens = `${this.formatTokens(usage.inputTokens)} in · ${this.formatTokens(usage.outputTokens)} out`;
+        return usage.cost === null ? tokens : `${tokens} · ${this.formatCost(usage.cost)}`;
+    }
+}
@@ -0,0 +1,230 @@
+import { App, TFile } from "obsidian";
+
+export interface VaultChunk {
+    path: string;
+    heading: string; // Nearest heading above the chunk, empty for the note preamble
+    text: string;
+    length: number; // Term count
+}
+
+export interface SearchResult {
+    chunk: VaultChunk;
+    score: number;
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+const MAX_CHUNK_CHARS = 1500;
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'if', 'in', 'into', 'is', 'it',
+    'of', 'on', 'or', 'that', 'the', 'their', 'then', 'there', 'these', 'this', 'to', 'was', 'what',
+    'when', 'where', 'which', 'who', 'will', 'with', 'how', 'why', 'do', 'does', 'can', 'about'
+]);
+
+/**
+ * In-memory BM25 index over the vault's markdown notes. Notes are split into
+ * heading-sized chunks; the index is built lazily on first use and then kept in
+ * sync through vault events, so retrieval never needs network access.
+ */
+export class VaultIndex {
+    private app: App;
+    private chunks: Map<number, VaultChunk> = new Map();
+    private chunksByPath: Map<string, number[]> = new Map();
+    // term -> (chunk id -> term frequency)
+    private postings: Map<string, Map<number, number>> = new Map();
+    private chunkTerms: Map<number, string[]> = new Map();
+    private nextId = 0;
+    private totalLength = 0;
+    private buildPromise: Promise<void> | null = null;
+    private pending: Map<string, number> = new Map();
+    ready = false;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    static tokenize(text: string): string[] {
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+        const tokens: string[] = [];
+        words.forEach(word => {
+            if (STOPWORDS.has(word)) return;
+            tokens.push(word);
+            // CJK and Hangul words carry particles/suffixes; bigrams let "노트를" match "노트"
+            if (word.length > 2 && /[\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF]/.test(word)) {
+                for (let i = 0; i < word.length - 1; i++) {
+                    tokens.push(word.substring(i, i + 2));
+                }
+            }
+        });
+        return tokens;
+    }
+
+    get size(): number {
+        return this.chunksByPath.size;
+    }
+
+    ensureBuilt(): Promise<void> {
+        if (!this.buildPromise) {
+            // A failed build is retried on next use
+            this.buildPromise = this.build().catch(e => {
+                this.buildPromise = null;
+                throw e;
+            });
+        }
+        return this.buildPromise;
+    }
+
+    async rebuild(): Promise<void> {
+        this.clear();
+        this.buildPromise = this.build();
+        return this.buildPromise;
+    }
+
+    private clear() {
+        this.chunks.clear();
+        this.chunksByPath.clear();
+        this.postings.clear();
+        this.chunkTerms.clear();
+        this.totalLength = 0;
+        this.ready = false;
+    }
+
+    private async build() {
+        const files = this.app.vault.getMarkdownFiles();
+        for (let i = 0; i < files.length; i++) {
+            await this.indexFile(files[i]);
+            // Yield to the UI so large vaults don't freeze Obsidian
+            if (i % 50 === 49) await new Promise(resolve => setTimeout(resolve, 0));
+        }
+        this.ready = true;
+    }
+
+    // Vault event handlers, ignored until the index is first used. Modifications
+    // are debounced since editors save often.
+    onModify(file: TFile) {
+        if (!this.buildPromise || file.extension !== 'md') return;
+        const existing = this.pending.get(file.path);
+        if (existing) window.clearTimeout(existing);
+        this.pending.set(file.path, window.setTimeout(() => {
+            this.pending.delete(file.path);
+            this.indexFile(file);
+        }, 2000));
+    }
+
+    // Called when the plugin unloads so no debounced reindex fires afterwards
+    unload() {
+        this.pending.forEach(timer => window.clearTimeout(timer));
+        this.pending.clear();
+    }
+
+    onDelete(path: string) {
+        if (!this.buildPromise) return;
+        this.removePath(path);
+    }
+
+    onRename(file: TFile, oldPath: string) {
+        if (!this.buildPromise) return;
+        this.removePath(oldPath);
+        if (file.extension === 'md') this.indexFile(file);
+    }
+
+    async indexFile(file: TFile) {
+        const content = await this.app.vault.cachedRead(file);
+        this.removePath(file.path);
+
+        const ids: number[] = [];
+        this.splitIntoChunks(content).forEach(({ heading, text }) => {
+            const terms = VaultIndex.tokenize(`${file.basename} ${heading} ${text}`);
+            if (terms.length === 0) return;
+            const id = this.nextId++;
+            const freqs = new Map<string, number>();
+            terms.forEach(t => freqs.set(t, (freqs.get(t) || 0) + 1));
+            freqs.forEach((tf, term) => {
+                let posting = this.postings.get(term);
+                if (!posting) {
+                    posting = new Map();
+                    this.postings.set(term, posting);
+                }
+                posting.set(id, tf);
+            });
+            this.chunks.set(id, { path: file.path, heading, text, length: terms.length });
+            this.chunkTerms.set(id, Array.from(freqs.keys()));
+            this.totalLength += terms.length;
+            ids.push(id);
+        });
+        this.chunksByPath.set(file.path, ids);
+    }
+
+    private removePath(path: string) {
+        const ids = this.chunksByPath.get(path);
+        if (!ids) return;
+        ids.forEach(id => {
+            const chunk = this.chunks.get(id);
+            if (chunk) this.totalLength -= chunk.length;
+            (this.chunkTerms.get(id) || []).forEach(term => {
+                const posting = this.postings.get(term);
+                if (!posting) return;
+                posting.delete(id);
+                if (posting.size === 0) this.postings.delete(term);
+            });
+            this.chunks.delete(id);
+            this.chunkTerms.delete(id);
+        });
+        this.chunksByPath.delete(path);
+    }
+
+    // Split on headings, then on paragraphs so no chunk exceeds MAX_CHUNK_CHARS
+    private splitIntoChunks(content: string): { heading: string, text: string }[] {
+        const body = content.replace(/^---\n[\s\S]*?\n---\n?/, '');
+        const sections: { heading: string, lines: string[] }[] = [{ heading: '', lines: [] }];
+        body.split('\n').forEach(line => {
+            const match = line.match(/^#{1,6}\s+(.*)$/);
+            if (match) {
+                sections.push({ heading: match[1].trim(), lines: [] });
+            } else {
+                sections[sections.length - 1].lines.push(line);
+            }
+        });
+
+        const chunks: { heading: string, text: string }[] = [];
+        sections.forEach(section => {
+            let current = '';
+            section.lines.join('\n').split(/\n\s*\n/).forEach(paragraph => {
+                if (current && current.length + paragraph.length > MAX_CHUNK_CHARS) {
+                    chunks.push({ heading: section.heading, text: current.trim() });
+                    current = '';
+                }
+                current += `${paragraph}\n\n`;
+            });
+            if (current.trim() || section.heading) {
+                chunks.push({ heading: section.heading, text: current.trim() });
+            }
+        });
+        return chunks;
+    }
+
+    search(query: string, topK: number): SearchResult[] {
+        const terms = Array.from(new Set(VaultIndex.tokenize(query)));
+        const count = this.chunks.size;
+        if (terms.length === 0 || count === 0) return [];
+        const avgLength = this.totalLength / count;
+
+        const scores = new Map<number, number>();
+        terms.forEach(term => {
+            const posting = this.postings.get(term);
+            if (!posting) return;
+            const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+            posting.forEach((tf, id) => {
+                const chunk = this.chunks.get(id)!;
+                const norm = tf * (K1 + 1) / (tf + K1 * (1 - B + B * chunk.length / avgLength));
+                scores.set(id, (scores.get(id) || 0) + idf * norm);
+            });
+        });
+
+        return Array.from(scores.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, topK)
+            .map(([id, score]) => ({ chunk: this.chunks.get(id)!, score }));
+    }
+}
@@ -0,0 +1,161 @@
+import { TFile, TFolder, normalizePath } from "obsidian";
+import AITerminalPlugin from "../main";
+import { ToolSpec } from "./AIService";
+import { NoteEdits } from "./NoteEdits";
+
+// A vault operation the model can call in agent mode
+export interface VaultTool extends ToolSpec {
+    write: boolean; // Changes the vault; every call is confirmed by the user first
+    run(args: Record<string, any>): Promise<string>;
+}
+
+const MAX_READ_CHARS = 20000;
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 20;
+
+// Builds the tools exposed to agent mode. Results are plain text for the model;
+// failures are thrown and reported back to it as tool errors.
+export class VaultTools {
+
+    static create(plugin: AITerminalPlugin): VaultTool[] {
+        const app = plugin.app;
+
+        const requireNote = (path: unknown): TFile => {
+            if (typeof path !== 'string' || !path.trim()) throw new Error("path is required");
+            const file = NoteEdits.resolveFile(app, path.trim());
+            if (!file) throw new Error(`Note "${path}" not found`);
+            return file;
+        };
+
+        const requireText = (value: unknown, name: string): string => {
+            if (typeof value !== 'string') throw new Error(`${name} is required`);
+            return value;
+        };
+
+        return [
+            {
+                name: 'search_notes',
+                description: 'Full-text search over the notes in the vault. Returns matching passages with their note paths.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'Search terms' },
+                        limit: { type: 'number', description: `Maximum number of passages (default ${DEFAULT_SEARCH_LIMIT})` }
+                    },
+                    required: ['query']
+                },
+                write: false,
+                run: async (args) => {
+                    const query = requireText(args.query, 'query');
+                    const limit = Math.min(Math.max(Number(args.limit) || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+                    await plugin.vaultIndex.ensureBuilt();
+                    const results = plugin.vaultIndex.search(query, limit);
+                    if (results.length === 0) return "No matching notes.";
+                    return results.map(r => {
+                        const location = r.chunk.heading ? `${r.chunk.path} > ${r.chunk.heading}` : r.chunk.path;
+                        return `${location}\n${r.chunk.text.substring(0, 500)}`;
+                    }).join('\n\n');
+                }
+            },
+            {
+                name: 'read_note',
+                description: 'Read the full content of a note by its path or name.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Note path such as "folder/Note.md", or a note name' }
+                    },
+                    required: ['path']
+                },
+                write: false,
+                run: async (args) => {
+                    const file = requireNote(args.path);
+                    const content = await app.vault.cachedRead(file);
+                    const truncated = content.length > MAX_READ_CHARS;
+                    return `=== ${file.path} ===\n${content.substring(0, MAX_READ_CHARS)}${truncated ? '\n[truncated]' : ''}`;
+                }
+            },
+            {
+                name: 'list_folder',
+                description: 'List the notes and subfolders of a folder. Use an empty path for the vault root.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Folder path' }
+                    }
+                },
+                write: false,
+                run: async (args) => {
+                    const path = typeof args.path === 'string' && args.path.trim() ? normalizePath(args.path.trim()) : '/';
+                    const folder = path === '/' ? app.vault.getRoot() : app.vault.getAbstractFileByPath(path);
+                    if (!(folder instanceof TFolder)) throw new Error(`Folder "${path}" not found`);
+                    if (folder.children.length === 0) return "The folder is empty.";
+                    return folder.children
+                        .map(child => child instanceof TFolder ? `${child.path}/` : child.path)
+                        .sort()
+                        .join('\n');
+                }
+            },
+            {
+                name: 'get_backlinks',
+                description: 'List the notes that link to a note.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Note path or name' }
+                    },
+                    required: ['path']
+                },
+                write: false,
+                run: async (args) => {
+                    const file = requireNote(args.path);
+                    const resolved = app.metadataCache.resolvedLinks;
+                    const sources = Object.keys(resolved).filter(source => resolved[source][file.path] > 0).sort();
+                    return sources.length > 0 ? sources.join('\n') : `No notes link to ${file.path}.`;
+                }
+            },
+            {
+                name: 'create_note',
+                description: 'Create a new note. Fails if a note already exists at the path.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Path of the new note, e.g. "folder/Note.md"' },
+                        content: { type: 'string', description: 'Markdown content' }
+                    },
+                    required: ['path', 'content']
+                },
+                write: true,
+                run: async (args) => {
+                    const raw = requireText(args.path, 'path').trim();
+                    const path = normalizePath(raw.endsWith('.md') ? raw : `${raw}.md`);
+                    if (app.vault.getAbstractFileByPath(path)) throw new Error(`"${path}" already exists`);
+                    const slash = path.lastIndexOf('/');
+                    const folder = slash === -1 ? '' : path.substring(0, slash);
+                    if (folder && !app.vault.getAbstractFileByPath(folder)) await app.vault.createFolder(folder);
+                    const file = await app.vault.create(path, requireText(args.content, 'content'));
+                    return `Created ${file.path}.`;
+                }
+            },
+            {
+                name: 'append_to_note',
+                description: 'Append text to the end of an existing note.',
+                parameters: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Note path or name' },
+                        content: { type: 'string', description: 'Markdown to append' }
+                    },
+                    required: ['path', 'content']
+                },
+                write: true,
+                run: async (args) => {
+                    const file = requireNote(args.path);
+                    const content = requireText(args.content, 'content');
+                    await app.vault.process(file, data => `${data}${data.endsWith('\n') || !data ? '' : '\n'}${content}`);
+                    return `Appended to ${file.path}.`;
+                }
+            }
+        ];
+    }
+}
@@ -0,0 +1,46 @@
+import AITerminalPlugin, { ModelInfo, PROVIDER_MODELS } from "../../main";
+import { AIService, ToolTurn } from "../AIService";
+import { AIProvider, CompletionRequest, ProviderSettingField, ToolCompletionRequest } from "./ProviderRegistry";
+
+export class ClaudeProvider implements AIProvider {
+    id = 'claude';
+    label = 'Claude';
+    name = 'Claude';
+    styleClass = 'claude';
+    credentials: ProviderSettingField[];
+    private plugin: AITerminalPlugin;
+
+    constructor(plugin: AITerminalPlugin) {
+        this.plugin = plugin;
+        this.credentials = [{
+            name: 'Claude API Key',
+            desc: 'Enter your Claude API Key',
+            placeholder: 'sk-ant-...',
+            secret: true,
+            getValue: () => this.plugin.keys.get(this.id),
+            setValue: (value) => this.plugin.keys.set(this.id, value)
+        }];
+    }
+
+    getModels(): ModelInfo[] {
+        return PROVIDER_MODELS.claude;
+    }
+
+    listModels(): Promise<ModelInfo[]> {
+        return AIService.listClaudeModels(this.plugin.keys.get(this.id));
+    }
+
+    complete(request: CompletionRequest): Promise<string> {
+        const claudeApiKey = this.plugin.keys.get(this.id);
+        const { model, systemPrompt, messages, onDelta, signal, onUsage } = request;
+        return onDelta
+            ? AIService.streamClaude(claudeApiKey, model, systemPrompt, messages, onDelta, signal, onUsage)
+            : AIService.callClaude(claudeApiKey, model, systemPrompt, messages, onUsage);
+    }
+
+    completeWithTools(request: ToolCompletionRequest): Promise<ToolTurn> {
+        const claudeApiKey = this.plugin.keys.get(this.id);
+        const { model, systemPrompt, messages, tools } = request;
+        return AIService.callClaudeTools(claudeApiKey, model, systemPrompt, messages, tools);
+    }
+}
@@ -0,0 +1,46 @@
+import AITerminalPlugin, { ModelInfo, PROVIDER_MODELS } from "../../main";
+import { AIService, ToolTurn } from "../AIService";
+import { AIProvider, CompletionRequest, ProviderSettingField, ToolCompletionRequest } from "./ProviderRegistry";
+
+export class GeminiProvider implements AIProvider {
+    id = 'gemini';
+    label = 'Gemini';
+    name = 'Google Gemini';
+    styleClass = 'gemini';
+    credentials: ProviderSettingField[];
+    private plugin: AITerminalPlugin;
+
+    constructor(plugin: AITerminalPlugin) {
+        this.plugin = plugin;
+        this.credentials = [{
+            name: 'Google Gemini API Key',
+            desc: 'Enter your Google Gemini API Key',
+            placeholder: 'AIzaSy...',
+            secret: true,
+            getValue: () => this.plugin.keys.get(this.id),
+            setValue: (value) => this.plugin.keys.set(this.id, value)
+        }];
+    }
+
+    getModels(): ModelInfo[] {
+        return PROVIDER_MODELS.gemini;
+    }
+
+    listModels(): Promise<ModelInfo[]> {
+        return AIService.listGoogleModels(this.plugin.keys.get(this.id));
+    }
+
+    complete(request: CompletionRequest): Promise<string> {
+        const googleApiKey = this.plugin.keys.get(this.id);
+        const { model, systemPrompt, messages, onDelta, signal, onUsage } = request;
+        return onDelta
+            ? AIService.streamGoogle(googleApiKey, model, systemPrompt, messages, onDelta, signal, onUsage)
+            : AIService.callGoogle(googleApiKey, model, systemPrompt, messages, onUsage);
+    }
+
+    completeWithTools(request: ToolCompletionRequest): Promise<ToolTurn> {
+        const googleApiKey = this.plugin.keys.get(this.id);
+        const { model, systemPrompt, messages, tools } = request;
+        return AIService.callGoogleTools(googleApiKey, model, systemPrompt, messages, tools);
+    }
+}
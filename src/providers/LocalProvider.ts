@@ -0,0 +1,101 @@
+import AITerminalPlugin, { ModelInfo } from "../../main";
+import { AIService, ToolTurn } from "../AIService";
+import { AIProvider, CompletionRequest, ProviderSettingField, ToolCompletionRequest } from "./ProviderRegistry";
+
+// Any OpenAI-compatible server such as Ollama, LM Studio or llama.cpp
+export class LocalProvider implements AIProvider {
+    id = 'local';
+    label = 'Local';
+    name = 'Local / Custom';
+    styleClass = 'local';
+    description = 'Any OpenAI-compatible server such as Ollama, LM Studio or llama.cpp. Requests go only to this URL.';
+    credentials: ProviderSettingField[];
+    private plugin: AITerminalPlugin;
+
+    constructor(plugin: AITerminalPlugin) {
+        this.plugin = plugin;
+        this.credentials = [
+            {
+                name: 'Base URL',
+                desc: 'Endpoint root; /chat/completions is appended',
+                placeholder: 'http://localhost:11434/v1',
+                getValue: () => this.plugin.settings.localBaseUrl,
+                setValue: (value) => { this.plugin.settings.localBaseUrl = value.trim(); }
+            },
+            {
+                name: 'API Key',
+                desc: 'Optional. Sent as a Bearer token when set.',
+                placeholder: 'Optional',
+                secret: true,
+                getValue: () => this.plugin.keys.get(this.id),
+                setValue: (value) => this.plugin.keys.set(this.id, value)
+            },
+            {
+                name: 'Models',
+                desc: 'Model ids served by the endpoint, separated by commas or new lines',
+                placeholder: 'llama3.1:8b, qwen2.5:14b',
+                multiline: true,
+                getValue: () => this.plugin.settings.localModels,
+                setValue: (value) => { this.plugin.settings.localModels = value; }
+            },
+            {
+                name: 'Context Window',
+                desc: 'Context length (tokens) the local models are served with',
+                placeholder: '8192',
+                getValue: () => String(this.plugin.settings.localContextWindow),
+                setValue: (value) => {
+                    const parsed = parseInt(value, 10);
+                    if (!isNaN(parsed) && parsed > 0) this.plugin.settings.localContextWindow = parsed;
+                }
+            },
+            {
+                name: 'Custom Headers',
+                desc: 'Extra request headers, one "Header-Name: value" per line',
+                placeholder: 'X-Proxy-Token: ...',
+                multiline: true,
+                getValue: () => this.plugin.settings.localHeaders,
+                setValue: (value) => { this.plugin.settings.localHeaders = value; }
+            }
+        ];
+    }
+
+    get defaultContextWindow(): number {
+        return this.plugin.settings.localContextWindow;
+    }
+
+    getModels(): ModelInfo[] {
+        return this.plugin.settings.localModels
+            .split(/[,\n]/)
+            .map(id => id.trim())
+            .filter(id => id.length > 0)
+            .map(id => ({ id, name: id, contextWindow: this.plugin.settings.localContextWindow }));
+    }
+
+    getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = { ...AIService.bearer(this.plugin.keys.get(this.id)) };
+        this.plugin.settings.localHeaders.split('\n').forEach(line => {
+            const idx = line.indexOf(':');
+            if (idx <= 0) return;
+            headers[line.slice(0, idx).trim()] = line.slice(idx + 1).trim();
+        });
+        return headers;
+    }
+
+    listModels(): Promise<ModelInfo[]> {
+        return AIService.listOpenAICompatibleModels(this.plugin.settings.localBaseUrl, this.getHeaders(), this.label, this.plugin.settings.localContextWindow);
+    }
+
+    complete(request: CompletionRequest): Promise<string> {
+        const { localBaseUrl } = this.plugin.settings;
+        const { model, systemPrompt, messages, onDelta, signal, onUsage } = request;
+        return onDelta
+            ? AIService.streamOpenAICompatible(localBaseUrl, this.getHeaders(), this.label, model, systemPrompt, messages, onDelta, signal, onUsage)
+            : AIService.callOpenAICompatible(localBaseUrl, this.getHeaders(), this.label, model, systemPrompt, messages, onUsage);
+    }
+
+    completeWithTools(request: ToolCompletionRequest): Promise<ToolTurn> {
+        const { localBaseUrl } = this.plugin.settings;
+        const { model, systemPrompt, messages, tools } = request;
+        return AIService.callOpenAICompatibleTools(localBaseUrl, this.getHeaders(), this.label, model, systemPrompt, messages, tools);
+    }
+}
@@ -0,0 +1,46 @@
+import AITerminalPlugin, { ModelInfo, PROVIDER_MODELS } from "../../main";
+import { AIService, ToolTurn } from "../AIService";
+import { AIProvider, CompletionRequest, ProviderSettingField, ToolCompletionRequest } from "./ProviderRegistry";
+
+export class OpenAIProvider implements AIProvider {
+    id = 'openai';
+    label = 'ChatGPT';
+    name = 'OpenAI';
+    styleClass = 'chatgpt';
+    credentials: ProviderSettingField[];
+    private plugin: AITerminalPlugin;
+
+    constructor(plugin: AITerminalPlugin) {
+        this.plugin = plugin;
+        this.credentials = [{
+            name: 'OpenAI API Key',
+            desc: 'Enter your OpenAI API Key',
+            placeholder: 'sk-...',
+            secret: true,
+            getValue: () => this.plugin.keys.get(this.id),
+            setValue: (value) => this.plugin.keys.set(this.id, value)
+        }];
+    }
+
+    getModels(): ModelInfo[] {
+        return PROVIDER_MODELS.openai;
+    }
+
+    listModels(): Promise<ModelInfo[]> {
+        return AIService.listOpenAIModels(this.plugin.keys.get(this.id));
+    }
+
+    complete(request: CompletionRequest): Promise<string> {
+        const openaiApiKey = this.plugin.keys.get(this.id);
+        const { model, systemPrompt, messages, onDelta, signal, onUsage } = request;
+        return onDelta
+            ? AIService.streamOpenAI(openaiApiKey, model, systemPrompt, messages, onDelta, signal, onUsage)
+            : AIService.callOpenAI(openaiApiKey, model, systemPrompt, messages, onUsage);
+    }
+
+    completeWithTools(request: ToolCompletionRequest): Promise<ToolTurn> {
+        const openaiApiKey = this.plugin.keys.get(this.id);
+        const { model, systemPrompt, messages, tools } = request;
+        return AIService.callOpenAITools(openaiApiKey, model, systemPrompt, messages, tools);
+    }
+}
@@ -0,0 +1,82 @@
+import { ModelInfo } from "../../main";
+import { AIMessage, StreamHandler, ToolSpec, ToolTurn, UsageHandler } from "../AIService";
+
+export interface CompletionRequest {
+    model: string;
+    systemPrompt: string;
+    messages: AIMessage[];
+    onDelta?: StreamHandler; // When set, the provider streams and reports text as it arrives
+    signal?: AbortSignal; // Aborts a streaming request
+    onUsage?: UsageHandler; // Receives the token counts the provider reports
+}
+
+export interface ToolCompletionRequest {
+    model: string;
+    systemPrompt: string;
+    messages: AIMessage[];
+    tools: ToolSpec[];
+}
+
+// A credential or connection setting rendered in the plugin settings tab
+export interface ProviderSettingField {
+    name: string;
+    desc: string;
+    placeholder?: string;
+    multiline?: boolean;
+    secret?: boolean; // An API key, kept in the KeyStore under the provider id and shown masked
+    getValue(): string;
+    setValue(value: string): void;
+}
+
+export interface AIProvider {
+    id: string;
+    label: string; // Short label for the header tab
+    name: string; // Full name for settings and dropdowns
+    styleClass: string; // Applied to the view as ui-style-<styleClass>
+    description?: string;
+    defaultContextWindow?: number; // Used for models missing from getModels()
+    credentials: ProviderSettingField[];
+    getModels(): ModelInfo[];
+    listModels?(): Promise<ModelInfo[]>; // Live list from the provider's model endpoint
+    complete(request: CompletionRequest): Promise<string>;
+    completeWithTools?(request: ToolCompletionRequest): Promise<ToolTurn>; // Native function calling, used by agent mode
+}
+
+export class ProviderRegistry {
+    private providers: Map<string, AIProvider> = new Map();
+    private listeners: Set<() => void> = new Set();
+
+    // Returns a function that removes the provider again
+    register(provider: AIProvider): () => void {
+        if (this.providers.has(provider.id)) {
+            throw new Error(`AI provider "${provider.id}" is already registered`);
+        }
+        this.providers.set(provider.id, provider);
+        this.notify();
+        // Only removes this instance, not a later provider registered under the same id
+        return () => {
+            if (this.providers.get(provider.id) === provider) this.unregister(provider.id);
+        };
+    }
+
+    unregister(id: string) {
+        if (this.providers.delete(id)) this.notify();
+    }
+
+    get(id: string): AIProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    getAll(): AIProvider[] {
+        return Array.from(this.providers.values());
+    }
+
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+}